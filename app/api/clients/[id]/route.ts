@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { deleteClient, getClient, updateClient } from "@/lib/client-store"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const notFound = (id: string) => NextResponse.json({ error: `No client has the ID "${id}"` }, { status: 404 })
+
+/**
+ * Returns a client, or 404 with `{ error }` if there is none with the ID.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const client = getClient(id)
+  return client ? NextResponse.json(client) : notFound(id)
+}
+
+/**
+ * Updates a client from a JSON body with any of its `name`, `email` and `status`; fields left out are kept.
+ *
+ * Responds with the updated client, 400 with `{ error }` when the body is not a JSON object, 404 with `{ error }`
+ * if there is no client with the ID, or 422 with `{ errors }` holding the error message of each invalid field.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => undefined)
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "The request body must be a JSON object" }, { status: 400 })
+  }
+
+  const result = updateClient(id, body)
+  if (!result) return notFound(id)
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 })
+  }
+  return NextResponse.json(result.client)
+}
+
+/**
+ * Deletes a client. Responds with 204, or 404 with `{ error }` if there is no client with the ID.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  return deleteClient(id) ? new NextResponse(null, { status: 204 }) : notFound(id)
+}
@@ -0,0 +1,105 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient, listClients, MAX_PAGE_SIZE } from "@/lib/client-store"
+import { parseSortString } from "@/lib/sort-string"
+import { parseFilters } from "@/lib/url-state"
+import { filterOperators, type FilterState } from "@/lib/filter-utils"
+import { getClientField } from "@/lib/data"
+import { DEFAULT_VIEW_STATE } from "@/lib/views"
+
+/**
+ * Parses a positive integer query parameter.
+ * @returns {number | null} The value, `fallback` when the parameter is absent, or `null` when it is invalid.
+ */
+const parsePositiveInteger = (value: string | null, fallback: number, max = Number.MAX_SAFE_INTEGER): number | null => {
+  if (value === null) return fallback
+  const number = Number(value)
+  return Number.isInteger(number) && number >= 1 && number <= max ? number : null
+}
+
+/**
+ * Finds the first condition whose operator does not apply to its field's type. The dashboard ignores such
+ * conditions, but an API caller most likely made a mistake.
+ * @returns {string | null} The error message, or `null` if every condition is valid.
+ */
+const findInvalidCondition = (filters: FilterState): string | null => {
+  for (const condition of filters.groups.flatMap((group) => group.conditions)) {
+    const operators = filterOperators[getClientField(condition.field)!.type] ?? []
+    if (!operators.some((operator) => operator.id === condition.operator)) {
+      return `operator "${condition.operator}" cannot filter "${condition.field}" (expected one of: ${operators.map((operator) => operator.id).join(", ")})`
+    }
+  }
+  return null
+}
+
+/**
+ * Lists a page of clients.
+ *
+ * Query parameters:
+ * - `sort`: sort criteria in the grammar of `parseSortString`, as in the dashboard URL, e.g.
+ *   `status:rank(active),-updatedAt`.
+ * - `filter`: a filter state as JSON, as in the dashboard URL.
+ * - `q`: quick search text.
+ * - `page`: the page to return, starting at 1 (default 1).
+ * - `pageSize`: the number of clients per page, up to 100 (default 25).
+ *
+ * Responds with `{ clients, page, pageSize, total, totalPages }`, or 400 with `{ error }` for invalid parameters.
+ */
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  const page = parsePositiveInteger(params.get("page"), 1)
+  if (page === null) {
+    return NextResponse.json({ error: "page must be a positive integer" }, { status: 400 })
+  }
+  const pageSize = parsePositiveInteger(params.get("pageSize"), DEFAULT_VIEW_STATE.pageSize, MAX_PAGE_SIZE)
+  if (pageSize === null) {
+    return NextResponse.json({ error: `pageSize must be an integer from 1 to ${MAX_PAGE_SIZE}` }, { status: 400 })
+  }
+
+  const sort = parseSortString(params.get("sort") ?? "")
+  if (sort.errors.length > 0) {
+    return NextResponse.json({ error: `Invalid sort: ${sort.errors.join("; ")}` }, { status: 400 })
+  }
+
+  const filterParam = params.get("filter")
+  const filters = filterParam === null ? undefined : parseFilters(filterParam)
+  if (filters === null) {
+    return NextResponse.json({ error: "filter must be a valid filter state in JSON" }, { status: 400 })
+  }
+  const conditionError = filters && findInvalidCondition(filters)
+  if (conditionError) {
+    return NextResponse.json({ error: `Invalid filter: ${conditionError}` }, { status: 400 })
+  }
+
+  return NextResponse.json(
+    listClients({
+      sortCriteria: sort.criteria,
+      filters,
+      query: params.get("q") ?? "",
+      page,
+      pageSize,
+    }),
+  )
+}
+
+/**
+ * Creates a client from a JSON body with its `name`, `email` and `status`.
+ *
+ * Responds with 201 and the new client, 400 with `{ error }` when the body is not JSON, or 422 with `{ errors }`
+ * holding the error message of each invalid field.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => undefined)
+  if (body === undefined) {
+    return NextResponse.json({ error: "The request body must be JSON" }, { status: 400 })
+  }
+
+  const result = createClient(body)
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 422 })
+  }
+  return NextResponse.json(result.client, {
+    status: 201,
+    headers: { Location: `${request.nextUrl.pathname}/${result.client.id}` },
+  })
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import { generateMockClients } from "@/lib/data"
+import { runSortBenchmark, type SortBenchmarkResult } from "@/lib/sort-benchmark"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Footer } from "@/components/footer"
+
+// The list sizes that can be benchmarked
+const BENCHMARK_SIZES = [1_000, 10_000, 100_000]
+
+const formatMs = (ms: number) => `${ms.toFixed(1)} ms`
+
+/**
+ * Benchmark page comparing the compiled sort comparators of `applyMultiSort` with the reference comparator,
+ * on generated clients. Everything runs in the browser, on the main thread.
+ */
+export default function SortBenchmarkPage() {
+  const [size, setSize] = useState(BENCHMARK_SIZES[1])
+  const [results, setResults] = useState<SortBenchmarkResult[]>([])
+  const [running, setRunning] = useState(false)
+
+  const handleRun = () => {
+    setRunning(true)
+    // Let the page show the running state before the benchmark blocks the main thread
+    setTimeout(() => {
+      setResults(runSortBenchmark(generateMockClients(size)))
+      setRunning(false)
+    }, 50)
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100">
+      <main className="flex-grow flex flex-col items-center p-4 md:p-8">
+        <div className="w-full max-w-4xl space-y-6">
+          <h1 className="text-3xl font-extrabold text-center">Sort Benchmark</h1>
+          <p className="text-center text-muted-foreground">
+            Compares the compiled comparators over precomputed keys with the reference comparator, which reads and
+            compares the fields on every comparison. Times are medians of three runs.
+          </p>
+
+          <div className="flex items-center justify-center gap-2">
+            <Select value={String(size)} onValueChange={(value) => setSize(Number(value))} disabled={running}>
+              <SelectTrigger className="w-[160px] bg-white dark:bg-gray-900" aria-label="Number of clients">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BENCHMARK_SIZES.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option.toLocaleString()} clients
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRun} disabled={running}>
+              {running ? "Running…" : "Run benchmark"}
+            </Button>
+          </div>
+
+          {results.length > 0 && (
+            <div className="rounded-md border overflow-hidden shadow-sm bg-white dark:bg-gray-900">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Criteria</TableHead>
+                    <TableHead className="text-right">Clients</TableHead>
+                    <TableHead className="text-right">Reference</TableHead>
+                    <TableHead className="text-right">Compiled</TableHead>
+                    <TableHead className="text-right">Speedup</TableHead>
+                    <TableHead>Same order</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.name}>
+                      <TableCell className="font-medium">{result.name}</TableCell>
+                      <TableCell className="text-right tabular-nums">{result.size.toLocaleString()}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMs(result.referenceMs)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMs(result.compiledMs)}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {(result.referenceMs / Math.max(result.compiledMs, 0.01)).toFixed(1)}×
+                      </TableCell>
+                      <TableCell className={result.matches ? "text-green-600" : "text-red-600"}>
+                        {result.matches ? "Yes" : "No"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  )
+}
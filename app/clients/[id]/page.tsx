@@ -0,0 +1,30 @@
+"use client"
+
+import { Suspense } from "react"
+import dynamic from "next/dynamic"
+import { useParams } from "next/navigation"
+import { Footer } from "@/components/footer"
+
+// Rendered in the browser only, like the dashboard: the clients are generated there, and dates are shown in the
+// user's time zone
+const ClientDetail = dynamic(() => import("@/components/client-detail").then((mod) => mod.ClientDetail), {
+  ssr: false,
+})
+
+/**
+ * Page showing a single client's record, at /clients/[id].
+ */
+export default function ClientPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100">
+      <main className="flex-grow flex flex-col items-center p-4 md:p-8">
+        <Suspense>
+          <ClientDetail id={id} />
+        </Suspense>
+      </main>
+      <Footer />
+    </div>
+  )
+}
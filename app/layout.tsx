@@ -1,5 +1,7 @@
 import type { Metadata } from 'next'
 import './globals.css'
+import { Toaster } from '@/components/ui/toaster'
+import { ClientsProvider } from '@/components/clients-provider'
 
 export const metadata: Metadata = {
   title: 'v0 App',
@@ -14,7 +16,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <ClientsProvider>{children}</ClientsProvider>
+        <Toaster />
+      </body>
     </html>
   )
 }
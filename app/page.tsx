@@ -1,73 +1,577 @@
 "use client"
 
-import { useEffect, useState, useMemo } from "react"
-import { generateMockClients, type Client } from "@/lib/data"
-import { applyMultiSort, type SortCriterion } from "@/lib/sort-utils"
+import { Suspense, useCallback, useEffect, useRef, useState, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { getClientField, type Client, type ClientFieldId, type ClientStatus } from "@/lib/data"
+import type { SortCriterion } from "@/lib/sort-utils"
+import { applyFilters, EMPTY_FILTERS, type FilterState } from "@/lib/filter-utils"
+import { applySearch } from "@/lib/search-utils"
+import { DEFAULT_VIEW_STATE, type SavedView, type ViewState } from "@/lib/views"
+import type { ColumnWidths } from "@/lib/columns"
+import { clientsToCsv } from "@/lib/selection"
+import type { ClientChanges } from "@/lib/client-edit"
+import type { ClientInput, ClientInputErrors } from "@/lib/client-schema"
+import { ClientRequestError, describeClientRequestError } from "@/lib/clients-api"
+import { saveListPosition, takeListPosition, type ListPosition } from "@/lib/list-position"
+import { buildUrlSearchParams, parseUrlState } from "@/lib/url-state"
+import { loadSortCriteria, serializeSortCriteria, SORT_STORAGE_KEY } from "@/lib/sort-storage"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useSavedViews } from "@/hooks/use-saved-views"
+import { toast } from "@/hooks/use-toast"
+import { useStorageEvent } from "@/hooks/use-storage-event"
+import { useUndoRedo } from "@/hooks/use-undo-redo"
+import { useSortedClients } from "@/hooks/use-sorted-clients"
+import { useRowSelection } from "@/hooks/use-row-selection"
+import { ToastAction } from "@/components/ui/toast"
+import { useClients } from "@/components/clients-provider"
 import { ClientTable } from "@/components/client-table"
 import { SortPanel } from "@/components/sort-panel"
+import { FilterPanel } from "@/components/filter-panel"
+import { QuickSearch } from "@/components/quick-search"
+import { ClientPagination } from "@/components/client-pagination"
+import { ColumnMenu } from "@/components/column-menu"
+import { BulkActionBar } from "@/components/bulk-action-bar"
+import { ClientFormDialog } from "@/components/client-form-dialog"
+import { ClientPreviewSheet } from "@/components/client-preview-sheet"
+import { Button } from "@/components/ui/button"
+import { PlusIcon } from "lucide-react"
+import { ViewSwitcher } from "@/components/view-switcher"
 import { Footer } from "@/components/footer" // Import the new Footer component
 
-// Constants for the number of clients and local storage key
-const CLIENT_COUNT = 20
-const LOCAL_STORAGE_KEY = "clientSortCriteria"
+// Delay before the quick search applies what the user typed
+const SEARCH_DEBOUNCE_MS = 200
+
+/**
+ * Identifies a list of results: the clients on a given page only stay the same while it does not change.
+ * Criterion IDs are left out, since they are regenerated when the criteria are read back from the URL.
+ */
+const getListKey = (sortCriteria: SortCriterion[], filters: FilterState, query: string, pageSize: number): string =>
+  JSON.stringify([sortCriteria.map(({ id, ...c }) => c), filters, query, pageSize])
 
 /**
  * The main application page component.
- * Manages client data, sorting criteria, and renders the UI.
+ * Wraps the dashboard in a Suspense boundary, which Next.js requires around components reading
+ * the URL query string with `useSearchParams`.
  */
 export default function Home() {
-  // State to hold the mock client data. Initialized once.
-  const [clients] = useState<Client[]>(generateMockClients(CLIENT_COUNT))
+  return (
+    <Suspense>
+      <Dashboard />
+    </Suspense>
+  )
+}
+
+/**
+ * The client dashboard.
+ * Manages client data, sorting criteria, filters, search and saved views, keeps them in sync with the URL,
+ * and renders the UI.
+ */
+function Dashboard() {
+  // The clients loaded from the API, shared with the client pages and edited in the table, the client form and the
+  // bulk actions through the API.
+  const { clients, loading: clientsLoading, statusHistory, createClient, updateClient, deleteClient } = useClients()
   // State to hold the current sorting criteria.
   const [sortCriteria, setSortCriteria] = useState<SortCriterion[]>([])
+  // State to hold the current filter conditions.
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS)
+  // State to hold the quick search text, and its debounced counterpart that actually drives the search.
+  const [searchQuery, setSearchQuery] = useState("")
+  const debouncedSearchQuery = useDebouncedValue(searchQuery, SEARCH_DEBOUNCE_MS)
+  // State to hold the hidden table columns and the page size, both captured by saved views.
+  const [hiddenColumns, setHiddenColumns] = useState<ClientFieldId[]>(DEFAULT_VIEW_STATE.hiddenColumns)
+  // State to hold the order of the table columns, also captured by saved views.
+  const [columnOrder, setColumnOrder] = useState<ClientFieldId[]>(DEFAULT_VIEW_STATE.columnOrder)
+  // State to hold the resized column widths and the pinned columns, also captured by saved views.
+  const [columnWidths, setColumnWidths] = useState<ColumnWidths>(DEFAULT_VIEW_STATE.columnWidths)
+  const [pinnedColumns, setPinnedColumns] = useState<ClientFieldId[]>(DEFAULT_VIEW_STATE.pinnedColumns)
+  const [pageSize, setPageSize] = useState(DEFAULT_VIEW_STATE.pageSize)
+  // State to hold the current page of the client table, starting at 1.
+  const [page, setPage] = useState(1)
+  // State of the client form dialog, and the client it edits (`null` when adding one).
+  const [clientFormOpen, setClientFormOpen] = useState(false)
+  const [formClient, setFormClient] = useState<Client | null>(null)
+  // A client just added, whose page is shown once the sorted results include it.
+  const [revealClientId, setRevealClientId] = useState<string | null>(null)
+  // Where the user was in the list before opening a client, restored once the list is the same again.
+  const listPositionRef = useRef<ListPosition | null>(null)
+  // The page carried by the URL when the page was opened, restored once the list it belongs to is shown.
+  const urlPageRef = useRef<{ listKey: string; page: number } | null>(null)
+  const [restoredScrollTop, setRestoredScrollTop] = useState<number>()
+  // The client previewed in the side sheet, and the scroll offset of the table body when it was opened.
+  const [previewClientId, setPreviewClientId] = useState<string | null>(null)
+  const previewScrollTopRef = useRef(0)
+  // Saved named views, persisted in localStorage.
+  const { store: viewsStore, setStore: setViewsStore, loaded: viewsLoaded } = useSavedViews()
+  // Whether the initial view has been selected, which only happens once the saved views are loaded.
+  const initialViewSelectedRef = useRef(false)
+  // Next.js router helpers for reading and updating the URL query string.
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  // State carried by the URL when the page was opened, read once. `null` if the URL carried none.
+  const [initialUrlState] = useState(() => parseUrlState(searchParams))
+  // Whether the initial state has been restored, after which changes are written back to the URL.
+  const [urlHydrated, setUrlHydrated] = useState(false)
+  // The last sort criteria written to or received from localStorage (as JSON), and when they were written.
+  // Used to avoid writing back criteria that came from another tab, and to ignore out-of-date changes.
+  const syncedCriteriaRef = useRef<string | null>(null)
+  const lastSavedAtRef = useRef(0)
 
   /**
-   * Effect hook to load sort criteria from localStorage on initial component mount.
-   * This ensures that the user's last sorting preferences are restored.
+   * Effect hook to restore the dashboard state on initial component mount.
+   * State carried by the URL (a shared link) takes precedence; otherwise the user's last sort criteria
+   * are restored from localStorage.
    */
   useEffect(() => {
     // Ensure window is defined (client-side execution) before accessing localStorage
     if (typeof window !== "undefined") {
-      const savedCriteria = localStorage.getItem(LOCAL_STORAGE_KEY)
-      if (savedCriteria) {
-        try {
-          // Attempt to parse the saved JSON string
-          const parsedCriteria: SortCriterion[] = JSON.parse(savedCriteria)
-          // Validate parsed criteria to ensure it's an array and contains expected properties
-          if (Array.isArray(parsedCriteria) && parsedCriteria.every((c) => c.id && c.field && c.direction)) {
-            setSortCriteria(parsedCriteria)
-          } else {
-            console.warn("Invalid sort criteria found in localStorage. Clearing it.")
-            localStorage.removeItem(LOCAL_STORAGE_KEY)
-          }
-        } catch (error) {
-          // Log any parsing errors and clear corrupted data from localStorage
-          console.error("Failed to parse sort criteria from localStorage:", error)
-          localStorage.removeItem(LOCAL_STORAGE_KEY) // Clear invalid data
+      // Read the versioned criteria, migrating older formats and dropping only the invalid criteria
+      const { criteria: savedCriteria, discarded, savedAt } = loadSortCriteria(localStorage.getItem(SORT_STORAGE_KEY))
+      lastSavedAtRef.current = savedAt
+      if (discarded.length > 0) {
+        console.warn("Discarded invalid sort criteria from localStorage:", discarded)
+        toast({
+          title: "Some saved sort criteria were discarded",
+          description: `${discarded.join("; ")}. The remaining criteria were restored.`,
+        })
+      }
+
+      listPositionRef.current = takeListPosition()
+
+      if (initialUrlState) {
+        setSortCriteria(initialUrlState.sortCriteria)
+        setFilters(initialUrlState.filters)
+        setSearchQuery(initialUrlState.query)
+        setPageSize(initialUrlState.pageSize)
+        const { sortCriteria: urlCriteria, filters: urlFilters, query, pageSize: urlPageSize } = initialUrlState
+        urlPageRef.current = {
+          listKey: getListKey(urlCriteria, urlFilters, query, urlPageSize),
+          page: initialUrlState.page,
         }
+      } else {
+        setSortCriteria(savedCriteria)
       }
+      setUrlHydrated(true)
     }
-  }, []) // Empty dependency array ensures this runs only once on mount
+  }, [initialUrlState]) // Only runs once on mount, since the initial URL state never changes
 
   /**
    * Effect hook to save sort criteria to localStorage whenever it changes.
-   * This persists the user's sorting preferences.
+   * This persists the user's sorting preferences and lets other open tabs pick them up.
+   * Waits until the saved criteria have been restored, so the initial empty state never overwrites them,
+   * and skips criteria that were just received from another tab, so tabs do not echo each other's writes.
    */
   useEffect(() => {
-    // Ensure window is defined (client-side execution) before accessing localStorage
-    if (typeof window !== "undefined") {
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(sortCriteria))
+    if (!urlHydrated) return
+    const json = JSON.stringify(sortCriteria)
+    if (json === syncedCriteriaRef.current) return
+    const savedAt = Date.now()
+    localStorage.setItem(SORT_STORAGE_KEY, serializeSortCriteria(sortCriteria, savedAt))
+    syncedCriteriaRef.current = json
+    lastSavedAtRef.current = savedAt
+  }, [sortCriteria, urlHydrated]) // Re-run this effect whenever sortCriteria changes
+
+  /**
+   * Applies sort criteria written by another tab. The latest write wins: a change older than the last one
+   * this tab saved or received (e.g. a delayed event) is ignored.
+   */
+  useStorageEvent(SORT_STORAGE_KEY, (value) => {
+    const { criteria, savedAt } = loadSortCriteria(value)
+    if (value === null || savedAt < lastSavedAtRef.current) return
+    syncedCriteriaRef.current = JSON.stringify(criteria)
+    lastSavedAtRef.current = savedAt
+    setSortCriteria(criteria)
+  })
+
+  // Undo/redo history of the sort criteria edits made in the sort panel and the table headers.
+  const {
+    change: changeSortCriteria,
+    undo: undoSortChange,
+    redo: redoSortChange,
+    canUndo: canUndoSort,
+    canRedo: canRedoSort,
+  } = useUndoRedo(sortCriteria, setSortCriteria)
+
+  /**
+   * Records a sort criteria edit in the undo history. When the edit removes criteria,
+   * a toast offers to put them back right away.
+   * @param {SortCriterion[]} criteria - The new sort criteria.
+   */
+  const handleSortCriteriaChange = useCallback(
+    (criteria: SortCriterion[]) => {
+      // The removed criteria with their positions, in ascending order
+      const removed = sortCriteria
+        .map((criterion, index) => ({ criterion, index }))
+        .filter(({ criterion }) => !criteria.some((next) => next.id === criterion.id))
+      changeSortCriteria(criteria)
+      if (removed.length === 0) return
+
+      /**
+       * Puts the removed criteria back at their former positions, keeping any change made since. A field sorted
+       * on again in the meantime gives way to its removed criterion.
+       */
+      const restoreRemoved = () =>
+        changeSortCriteria((current) => {
+          const next = current.filter((c) => !removed.some(({ criterion }) => criterion.field === c.field))
+          for (const { criterion, index } of removed) next.splice(Math.min(index, next.length), 0, criterion)
+          return next
+        })
+
+      const [{ criterion: first }] = removed
+      toast({
+        title:
+          removed.length === 1
+            ? `Removed sort by ${getClientField(first.field)?.label ?? first.field}`
+            : `Removed ${removed.length} sort criteria`,
+        action: (
+          <ToastAction altText="Undo removing the sort criteria" onClick={restoreRemoved}>
+            Undo
+          </ToastAction>
+        ),
+      })
+    },
+    [sortCriteria, changeSortCriteria],
+  )
+
+  /**
+   * Effect hook for the undo/redo keyboard shortcuts: Ctrl+Z (⌘Z) and Ctrl+Shift+Z (⌘⇧Z).
+   * Ignored while typing in a text field, and left to the browser when there is nothing to undo or redo,
+   * so native undo keeps working.
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z") return
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return
+      if (event.shiftKey ? !canRedoSort : !canUndoSort) return
+      event.preventDefault()
+      if (event.shiftKey) {
+        redoSortChange()
+      } else {
+        undoSortChange()
+      }
     }
-  }, [sortCriteria]) // Re-run this effect whenever sortCriteria changes
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undoSortChange, redoSortChange, canUndoSort, canRedoSort])
 
   /**
-   * Memoized computation for the sorted clients array.
-   * This prevents re-sorting the clients unnecessarily on every render,
-   * only re-sorting when the original `clients` data or `sortCriteria` change.
+   * The table state currently displayed, as captured by saved views.
    */
-  const sortedClients = useMemo(() => {
-    return applyMultiSort(clients, sortCriteria)
-  }, [clients, sortCriteria]) // Dependencies for memoization
+  const currentViewState = useMemo<ViewState>(
+    () => ({ sortCriteria, filters, hiddenColumns, columnOrder, columnWidths, pinnedColumns, pageSize }),
+    [sortCriteria, filters, hiddenColumns, columnOrder, columnWidths, pinnedColumns, pageSize],
+  )
+
+  /**
+   * Displays the state captured by a saved view.
+   * @param {SavedView} view - The view to apply.
+   */
+  const applyView = useCallback((view: SavedView) => {
+    setSortCriteria(view.state.sortCriteria)
+    setFilters(view.state.filters)
+    setHiddenColumns(view.state.hiddenColumns)
+    setColumnOrder(view.state.columnOrder)
+    setColumnWidths(view.state.columnWidths)
+    setPinnedColumns(view.state.pinnedColumns)
+    setPageSize(view.state.pageSize)
+  }, [])
+
+  /**
+   * Effect hook to select the initial view once the saved views are loaded.
+   * A view named in the URL is marked active, and the settings the URL does not carry (which columns are shown,
+   * their order, widths and pins) are taken from the view; the sort, filters, search, page size and page come from the URL. Otherwise the default
+   * view, if one is set, is applied and takes precedence over the last sort criteria restored from localStorage.
+   */
+  useEffect(() => {
+    if (!viewsLoaded || initialViewSelectedRef.current) return
+    initialViewSelectedRef.current = true
+    if (initialUrlState) {
+      const urlView = viewsStore.views.find((view) => view.id === initialUrlState.viewId)
+      if (urlView) {
+        setHiddenColumns(urlView.state.hiddenColumns)
+        setColumnOrder(urlView.state.columnOrder)
+        setColumnWidths(urlView.state.columnWidths)
+        setPinnedColumns(urlView.state.pinnedColumns)
+      }
+      setViewsStore({ ...viewsStore, activeViewId: urlView ? urlView.id : null })
+      return
+    }
+    const defaultView = viewsStore.views.find((view) => view.id === viewsStore.defaultViewId)
+    if (defaultView) {
+      applyView(defaultView)
+      setViewsStore({ ...viewsStore, activeViewId: defaultView.id })
+    }
+  }, [viewsLoaded, viewsStore, setViewsStore, initialUrlState, applyView])
+
+  /**
+   * Effect hook to keep the URL query string in sync with the dashboard state, so the current sort, filters,
+   * view and page can be shared as a link. Waits until the initial state has been restored to avoid overwriting
+   * the URL it came from, and replaces the history entry rather than pushing one per change.
+   */
+  useEffect(() => {
+    if (!urlHydrated || !viewsLoaded) return
+    const params = buildUrlSearchParams({
+      viewId: viewsStore.activeViewId,
+      sortCriteria,
+      filters,
+      query: debouncedSearchQuery,
+      pageSize,
+      page,
+    }).toString()
+    if (params !== window.location.search.replace(/^\?/, "")) {
+      router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false })
+    }
+  }, [
+    urlHydrated,
+    viewsLoaded,
+    viewsStore.activeViewId,
+    sortCriteria,
+    filters,
+    debouncedSearchQuery,
+    pageSize,
+    page,
+    router,
+    pathname,
+  ])
+
+  /**
+   * Memoized computation for the filtered clients array.
+   * Kept separate from searching and sorting so typing in the search box does not re-run the filters.
+   */
+  const filteredClients = useMemo(() => {
+    return applyFilters(clients, filters)
+  }, [clients, filters])
+
+  /**
+   * Memoized computation for the searched clients array.
+   * Searching runs before sorting so that only the matching clients are sorted.
+   */
+  const searchedClients = useMemo(() => {
+    return applySearch(filteredClients, debouncedSearchQuery)
+  }, [filteredClients, debouncedSearchQuery])
+
+  // The searched clients sorted by `sortCriteria`; large lists are sorted in a Web Worker.
+  const { sortedClients, sorting, progress: sortProgress } = useSortedClients(searchedClients, sortCriteria)
+
+  // Identifies the list of results, to tell when the current page no longer shows the same clients.
+  const listKey = useMemo(
+    () => getListKey(sortCriteria, filters, debouncedSearchQuery, pageSize),
+    [sortCriteria, filters, debouncedSearchQuery, pageSize],
+  )
+
+  /**
+   * Effect hook to go back to the first page whenever the sort criteria, filters, search text or page size change,
+   * since the clients on the current page would no longer be the ones the user was looking at.
+   */
+  useEffect(() => {
+    setPage(1)
+  }, [listKey])
+
+  /**
+   * Effect hook to restore the page carried by the URL, or the page and scroll offsets the user left the list at
+   * when opening a client, once the restored sort, filters and search produce the same list. Runs after the effect
+   * going back to the first page, so the restored page wins.
+   */
+  useEffect(() => {
+    const urlPage = urlPageRef.current
+    if (urlPage && urlPage.listKey === listKey) {
+      urlPageRef.current = null
+      setPage(urlPage.page)
+    }
+    const position = listPositionRef.current
+    if (!position || position.listKey !== listKey) return
+    listPositionRef.current = null
+    setPage(position.page)
+    setRestoredScrollTop(position.scrollTop)
+    window.scrollTo(0, position.windowScrollY)
+  }, [listKey])
+
+  // The page actually shown, in case the results shrank below the current page
+  const currentPage = Math.min(page, Math.max(1, Math.ceil(sortedClients.length / pageSize)))
+
+  /**
+   * Memoized computation for the clients on the current page, taken from the sorted clients.
+   */
+  const pagedClients = useMemo(() => {
+    return sortedClients.slice((currentPage - 1) * pageSize, currentPage * pageSize)
+  }, [sortedClients, currentPage, pageSize])
+
+  // The previewed client, and its position in the sorted results (-1 once it has left them, e.g. after an edit)
+  const previewClient = previewClientId ? clients.find((client) => client.id === previewClientId) : undefined
+  const previewIndex = previewClient ? sortedClients.indexOf(previewClient) : -1
+
+  /**
+   * Previews a client in the side sheet.
+   * @param {Client} client - The client to preview.
+   * @param {number} scrollTop - The scroll offset of the table body, restored when coming back from the client's page.
+   */
+  const handlePreviewClient = useCallback((client: Client, scrollTop: number) => {
+    previewScrollTopRef.current = scrollTop
+    setPreviewClientId(client.id)
+  }, [])
+
+  /**
+   * Previews the client a number of positions away in the sorted results, and shows the table page holding it.
+   * @param {number} delta - How many positions to move: -1 for the previous client, 1 for the next one.
+   */
+  const handleStepPreview = useCallback(
+    (delta: number) => {
+      const index = previewIndex + delta
+      const client = sortedClients[index]
+      if (previewIndex === -1 || !client) return
+      const clientPage = Math.floor(index / pageSize) + 1
+      if (clientPage !== currentPage) {
+        setPage(clientPage)
+        previewScrollTopRef.current = 0
+      }
+      setPreviewClientId(client.id)
+    },
+    [previewIndex, sortedClients, pageSize, currentPage],
+  )
+
+  /**
+   * Opens a client's page, remembering where the user is in the list. The query string carrying the sort,
+   * filters and search is passed along, so the client page can step through the clients in the same order.
+   * @param {Client} client - The client to open.
+   */
+  const handleOpenClientPage = useCallback(
+    (client: Client) => {
+      saveListPosition({
+        listKey,
+        page: currentPage,
+        scrollTop: previewScrollTopRef.current,
+        windowScrollY: window.scrollY,
+      })
+      router.push(`/clients/${client.id}${window.location.search}`)
+    },
+    [listKey, currentPage, router],
+  )
+
+  /**
+   * Effect hook to show the page of a client just added, once the sorted results include it.
+   * If the filters or the search exclude it, a toast says so instead.
+   */
+  useEffect(() => {
+    if (!revealClientId || sorting) return
+    const index = sortedClients.findIndex((client) => client.id === revealClientId)
+    if (index === -1) {
+      toast({ title: "Client added", description: "It is hidden by the current filters or search." })
+    } else {
+      const clientPage = Math.floor(index / pageSize) + 1
+      setPage(clientPage)
+      toast({ title: "Client added", description: `Shown on page ${clientPage}.` })
+    }
+    setRevealClientId(null)
+  }, [revealClientId, sortedClients, sorting, pageSize])
+
+  // Selected clients, keyed by ID; "select all" and range selections cover the sorted results across pages.
+  const {
+    selectedIds,
+    selectedClients,
+    selectAllState,
+    toggle: toggleSelection,
+    toggleAll: toggleSelectAll,
+    clear: clearSelection,
+  } = useRowSelection(sortedClients)
+
+  /**
+   * Saves a value edited in place in the table through the API, which marks the client as updated. The sorted
+   * results are derived from the clients, so the row moves to its new position in the current sort.
+   * @param {string} id - The ID of the edited client.
+   * @param {ClientChanges} changes - The new values.
+   */
+  const handleClientChange = useCallback(
+    async (id: string, changes: ClientChanges) => {
+      try {
+        await updateClient(id, changes)
+      } catch (error) {
+        // The API runs the same checks as the client form, so an email edited in place stays unique
+        toast({
+          title: "The change could not be saved",
+          description: describeClientRequestError(error),
+          variant: "destructive",
+        })
+      }
+    },
+    [updateClient],
+  )
+
+  /**
+   * Opens the client form, to edit a client or to add one.
+   * @param {Client | null} client - The client to edit, or `null` to add a new one.
+   */
+  const openClientForm = useCallback((client: Client | null) => {
+    setFormClient(client)
+    setClientFormOpen(true)
+  }, [])
+
+  /**
+   * Saves the values submitted in the client form through the API, which validates them.
+   * A new client is added to the clients; the sorted results place it according to the current sort.
+   * @param {ClientInput} values - The submitted values.
+   * @returns {Promise<{ errors?: ClientInputErrors }>} The error message of each rejected field, if any.
+   */
+  const handleClientFormSubmit = useCallback(
+    async (values: ClientInput): Promise<{ errors?: ClientInputErrors }> => {
+      try {
+        if (formClient) {
+          const client = await updateClient(formClient.id, values)
+          toast({ title: `Saved ${client.name}` })
+        } else {
+          const client = await createClient(values)
+          setRevealClientId(client.id)
+        }
+        return {}
+      } catch (error) {
+        if (error instanceof ClientRequestError && error.errors) return { errors: error.errors }
+        return { errors: { root: describeClientRequestError(error) } }
+      }
+    },
+    [formClient, createClient, updateClient],
+  )
+
+  /**
+   * Sets the status of the selected clients through the API, which marks them as updated.
+   * @param {ClientStatus} status - The new status.
+   */
+  const handleBulkStatusChange = useCallback(
+    async (status: ClientStatus) => {
+      const results = await Promise.allSettled(selectedClients.map((client) => updateClient(client.id, { status })))
+      const updated = results.filter((result) => result.status === "fulfilled").length
+      toast({ title: `Set ${updated} ${updated === 1 ? "client" : "clients"} to ${status}` })
+      if (updated < results.length) {
+        toast({ title: `${results.length - updated} of the clients could not be updated`, variant: "destructive" })
+      }
+    },
+    [selectedClients, updateClient],
+  )
+
+  /**
+   * Deletes the selected clients through the API and clears the selection.
+   */
+  const handleBulkDelete = useCallback(async () => {
+    const results = await Promise.allSettled(selectedClients.map((client) => deleteClient(client.id)))
+    const deleted = results.filter((result) => result.status === "fulfilled").length
+    clearSelection()
+    toast({ title: `Deleted ${deleted} ${deleted === 1 ? "client" : "clients"}` })
+    if (deleted < results.length) {
+      toast({ title: `${results.length - deleted} of the clients could not be deleted`, variant: "destructive" })
+    }
+  }, [selectedClients, clearSelection, deleteClient])
+
+  /**
+   * Downloads the selected clients as a CSV file, in their sorted order.
+   */
+  const handleBulkExport = useCallback(() => {
+    const url = URL.createObjectURL(new Blob([clientsToCsv(selectedClients)], { type: "text/csv;charset=utf-8" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `clients-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    // Revoked on the next task, as some browsers cancel the download if the URL is revoked right after the click
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }, [selectedClients])
 
   return (
     <div className="flex flex-col min-h-screen bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100">
@@ -77,18 +581,102 @@ export default function Home() {
             Client List Dashboard
           </h1>
 
+          {/* Saved view switcher */}
+          <ViewSwitcher
+            store={viewsStore}
+            currentState={currentViewState}
+            onStoreChange={setViewsStore}
+            onApplyView={applyView}
+          />
+
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-            {/* Sort Panel section */}
-            <div className="md:col-span-1">
-              <SortPanel sortCriteria={sortCriteria} onSortCriteriaChange={setSortCriteria} />
+            {/* Sort and Filter Panel section */}
+            <div className="md:col-span-1 space-y-6">
+              <SortPanel
+                sortCriteria={sortCriteria}
+                onSortCriteriaChange={handleSortCriteriaChange}
+                onUndo={undoSortChange}
+                onRedo={redoSortChange}
+                canUndo={canUndoSort}
+                canRedo={canRedoSort}
+              />
+              <FilterPanel filters={filters} onFiltersChange={setFilters} />
             </div>
-            {/* Client Table section */}
-            <div className="md:col-span-3">
-              <ClientTable clients={sortedClients} />
+            {/* Quick Search and Client Table section */}
+            <div className="md:col-span-3 space-y-4">
+              <div className="flex items-center gap-2">
+                <div className="flex-1">
+                  <QuickSearch value={searchQuery} onValueChange={setSearchQuery} resultCount={sortedClients.length} />
+                </div>
+                <ColumnMenu
+                  columnOrder={columnOrder}
+                  hiddenColumns={hiddenColumns}
+                  onColumnOrderChange={setColumnOrder}
+                  onHiddenColumnsChange={setHiddenColumns}
+                />
+                <Button onClick={() => openClientForm(null)}>
+                  <PlusIcon className="h-4 w-4" /> Add client
+                </Button>
+              </div>
+              <BulkActionBar
+                selectedCount={selectedClients.length}
+                onChangeStatus={handleBulkStatusChange}
+                onDelete={handleBulkDelete}
+                onExport={handleBulkExport}
+                onClearSelection={clearSelection}
+              />
+              <ClientTable
+                clients={pagedClients}
+                sortCriteria={sortCriteria}
+                onSortCriteriaChange={handleSortCriteriaChange}
+                searchQuery={debouncedSearchQuery}
+                hiddenColumns={hiddenColumns}
+                columnOrder={columnOrder}
+                columnWidths={columnWidths}
+                onColumnWidthsChange={setColumnWidths}
+                pinnedColumns={pinnedColumns}
+                onPinnedColumnsChange={setPinnedColumns}
+                selectedIds={selectedIds}
+                selectAllState={selectAllState}
+                onToggleSelect={toggleSelection}
+                onToggleSelectAll={toggleSelectAll}
+                onClientChange={handleClientChange}
+                onEditClient={openClientForm}
+                onOpenClient={handlePreviewClient}
+                initialScrollTop={restoredScrollTop}
+                loading={clientsLoading || sorting}
+                progress={sortProgress}
+              />
+              <ClientPagination
+                page={currentPage}
+                pageSize={pageSize}
+                totalCount={sortedClients.length}
+                onPageChange={setPage}
+                onPageSizeChange={setPageSize}
+              />
             </div>
           </div>
         </div>
       </main>
+      {/* Side sheet previewing the clicked client */}
+      <ClientPreviewSheet
+        client={previewClient}
+        history={previewClient ? (statusHistory[previewClient.id] ?? []) : []}
+        index={previewIndex}
+        total={sortedClients.length}
+        onClose={() => setPreviewClientId(null)}
+        onStep={handleStepPreview}
+        onEdit={openClientForm}
+        onStatusChange={(client, status) => handleClientChange(client.id, { status })}
+        onOpenPage={handleOpenClientPage}
+      />
+      {/* Dialog for adding a client or editing one */}
+      <ClientFormDialog
+        open={clientFormOpen}
+        onOpenChange={setClientFormOpen}
+        client={formClient}
+        onSubmit={handleClientFormSubmit}
+      />
       {/* Footer component */}
       <Footer />
     </div>
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { clientStatuses, formatEnumValue, type ClientStatus } from "@/lib/data"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ChevronDownIcon, DownloadIcon, TrashIcon, XIcon } from "lucide-react"
+
+interface BulkActionBarProps {
+  selectedCount: number
+  onChangeStatus: (status: ClientStatus) => void
+  onDelete: () => void
+  onExport: () => void
+  onClearSelection: () => void
+}
+
+/**
+ * Toolbar shown while clients are selected, acting on all of them at once:
+ * change their status, delete them (after a confirmation) or export them as CSV.
+ *
+ * @param {BulkActionBarProps} props - The component props.
+ * @param {number} props.selectedCount - The number of selected clients. Nothing is rendered when it is 0.
+ * @param {(status: ClientStatus) => void} props.onChangeStatus - Callback to set the status of the selected clients.
+ * @param {() => void} props.onDelete - Callback to delete the selected clients, once confirmed.
+ * @param {() => void} props.onExport - Callback to export the selected clients.
+ * @param {() => void} props.onClearSelection - Callback to deselect every client.
+ */
+export function BulkActionBar({
+  selectedCount,
+  onChangeStatus,
+  onDelete,
+  onExport,
+  onClearSelection,
+}: BulkActionBarProps) {
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  if (selectedCount === 0) return null
+
+  const handleDelete = () => {
+    onDelete()
+    setConfirmDelete(false)
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="flex flex-wrap items-center gap-2 rounded-md border bg-white dark:bg-gray-900 px-3 py-2 shadow-sm"
+    >
+      <span className="text-sm font-medium tabular-nums">
+        {selectedCount} {selectedCount === 1 ? "client" : "clients"} selected
+      </span>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClearSelection} aria-label="Clear selection">
+        <XIcon className="h-4 w-4" />
+      </Button>
+
+      <div className="ml-auto flex items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              Change status <ChevronDownIcon className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Set status to</DropdownMenuLabel>
+            {clientStatuses.map((status) => (
+              <DropdownMenuItem key={status} onSelect={() => onChangeStatus(status)}>
+                {formatEnumValue(status)}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <DownloadIcon className="h-4 w-4" /> Export CSV
+        </Button>
+        <Button variant="destructive" size="sm" onClick={() => setConfirmDelete(true)}>
+          <TrashIcon className="h-4 w-4" /> Delete
+        </Button>
+      </div>
+
+      {/* Confirmation before deleting the selected clients */}
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selectedCount} {selectedCount === 1 ? "client" : "clients"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>The selected clients will be removed from the list.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
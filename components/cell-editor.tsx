@@ -0,0 +1,117 @@
+"use client"
+
+import { useRef, useState, type KeyboardEvent } from "react"
+import { clientStatuses, formatEnumValue, type Client, type ClientStatus } from "@/lib/data"
+import { validateClientValue, type ClientChanges, type EditableClientField } from "@/lib/client-edit"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+
+interface CellEditorProps {
+  client: Client
+  field: EditableClientField
+  onCommit: (changes: ClientChanges) => void
+  onCancel: () => void
+}
+
+/**
+ * Text input editing a client's name or email in place.
+ * The value is validated as it is typed; Enter saves it if it is valid, Escape cancels, and leaving the input
+ * saves a valid value or discards an invalid one.
+ */
+function TextCellEditor({ client, field, onCommit, onCancel }: CellEditorProps & { field: "name" | "email" }) {
+  const [draft, setDraft] = useState(client[field])
+  // Set once the edit is saved or cancelled, so the blur caused by closing the editor is ignored
+  const doneRef = useRef(false)
+  const error = draft !== client[field] ? validateClientValue(field, draft) : null
+  const errorId = `${client.id}-${field}-error`
+
+  const finish = (save: boolean) => {
+    if (doneRef.current) return
+    doneRef.current = true
+    if (save && !validateClientValue(field, draft)) {
+      onCommit({ [field]: draft })
+    } else {
+      onCancel()
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      if (!error) finish(true)
+    } else if (event.key === "Escape") {
+      event.preventDefault()
+      event.stopPropagation()
+      finish(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        type={field === "email" ? "email" : "text"}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => finish(true)}
+        onFocus={(event) => event.target.select()}
+        autoFocus
+        aria-label={field === "email" ? "Email" : "Name"}
+        aria-invalid={error !== null}
+        aria-describedby={error ? errorId : undefined}
+        className={cn("h-8 px-2", error && "border-destructive focus-visible:ring-destructive")}
+      />
+      {error && (
+        <p
+          id={errorId}
+          role="alert"
+          className="absolute left-0 top-full z-30 mt-1 whitespace-nowrap rounded bg-destructive px-2 py-0.5 text-xs text-destructive-foreground shadow"
+        >
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Select editing a client's status in place. It opens right away; picking a status saves it, and closing the
+ * list without picking one cancels.
+ */
+function StatusCellEditor({ client, onCommit, onCancel }: CellEditorProps) {
+  return (
+    <Select
+      defaultOpen
+      value={client.status}
+      onValueChange={(value) => onCommit({ status: value as ClientStatus })}
+      onOpenChange={(open) => !open && onCancel()}
+    >
+      <SelectTrigger className="h-8 w-[130px]" aria-label="Status">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {clientStatuses.map((status) => (
+          <SelectItem key={status} value={status}>
+            {formatEnumValue(status)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Edits one of a client's fields in place, inside its table cell: a select for the status, and a validated
+ * text input for the name and email.
+ *
+ * @param {CellEditorProps} props - The component props.
+ * @param {Client} props.client - The client being edited.
+ * @param {EditableClientField} props.field - The field being edited.
+ * @param {(changes: ClientChanges) => void} props.onCommit - Callback receiving the new, valid value.
+ * @param {() => void} props.onCancel - Callback to close the editor without saving.
+ */
+export function CellEditor(props: CellEditorProps) {
+  const { field } = props
+  return field === "status" ? <StatusCellEditor {...props} /> : <TextCellEditor {...props} field={field} />
+}
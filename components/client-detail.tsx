@@ -0,0 +1,171 @@
+"use client"
+
+import { useMemo } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { clientFields } from "@/lib/data"
+import { applyFilters, EMPTY_FILTERS } from "@/lib/filter-utils"
+import { applySearch } from "@/lib/search-utils"
+import { applyMultiSort } from "@/lib/sort-utils"
+import { loadSortCriteria, SORT_STORAGE_KEY } from "@/lib/sort-storage"
+import { parseUrlState } from "@/lib/url-state"
+import { useClients } from "@/components/clients-provider"
+import { StatusBadge } from "@/components/status-badge"
+import { Timestamp } from "@/components/timestamp"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react"
+
+/**
+ * A client's full record: every field, its timestamps and its status history, with links to the previous and
+ * next clients.
+ * The previous and next clients follow the dashboard's order: the sort, filters and search carried by the query
+ * string (or the sort saved in localStorage when it carries none, as the dashboard does), which the links keep.
+ *
+ * @param {Object} props - The component props.
+ * @param {string} props.id - The ID of the client to display.
+ */
+export function ClientDetail({ id }: { id: string }) {
+  const { clients, loading, statusHistory } = useClients()
+  const searchParams = useSearchParams()
+  const query = searchParams.toString() ? `?${searchParams.toString()}` : ""
+
+  /**
+   * Memoized computation for the clients listed on the dashboard, in the dashboard's order.
+   */
+  const orderedClients = useMemo(() => {
+    const urlState = parseUrlState(searchParams)
+    const sortCriteria = urlState
+      ? urlState.sortCriteria
+      : loadSortCriteria(localStorage.getItem(SORT_STORAGE_KEY)).criteria
+    const filtered = applyFilters(clients, urlState?.filters ?? EMPTY_FILTERS)
+    return applyMultiSort(applySearch(filtered, urlState?.query ?? ""), sortCriteria)
+  }, [clients, searchParams])
+
+  const client = clients.find((c) => c.id === id)
+  const index = orderedClients.findIndex((c) => c.id === id)
+  const previous = index > 0 ? orderedClients[index - 1] : undefined
+  const next = index !== -1 ? orderedClients[index + 1] : undefined
+  // Newest change first
+  const history = [...(statusHistory[id] ?? [])].reverse()
+
+  return (
+    <div className="w-full max-w-3xl space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button variant="ghost" asChild>
+          <Link href={`/${query}`}>
+            <ArrowLeftIcon className="h-4 w-4" /> Back to clients
+          </Link>
+        </Button>
+        {client && (
+          <nav className="flex items-center gap-2" aria-label="Client navigation">
+            <span className="text-sm text-muted-foreground tabular-nums">
+              {index === -1
+                ? "Not in the current results"
+                : `${(index + 1).toLocaleString()} of ${orderedClients.length.toLocaleString()}`}
+            </span>
+            <Button variant="outline" size="icon" asChild={previous !== undefined} disabled={!previous}>
+              {previous ? (
+                <Link href={`/clients/${previous.id}${query}`} aria-label={`Previous client: ${previous.name}`}>
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </Link>
+              ) : (
+                <ChevronLeftIcon className="h-4 w-4" />
+              )}
+            </Button>
+            <Button variant="outline" size="icon" asChild={next !== undefined} disabled={!next}>
+              {next ? (
+                <Link href={`/clients/${next.id}${query}`} aria-label={`Next client: ${next.name}`}>
+                  <ChevronRightIcon className="h-4 w-4" />
+                </Link>
+              ) : (
+                <ChevronRightIcon className="h-4 w-4" />
+              )}
+            </Button>
+          </nav>
+        )}
+      </div>
+
+      {!client && loading ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Loading client…</CardTitle>
+          </CardHeader>
+        </Card>
+      ) : !client ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Client not found</CardTitle>
+            <CardDescription>No client has the ID &quot;{id}&quot;. It may have been deleted.</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center gap-3">
+                <CardTitle className="text-2xl">{client.name}</CardTitle>
+                <StatusBadge status={client.status} />
+              </div>
+              <CardDescription>
+                <a href={`mailto:${client.email}`} className="hover:underline">
+                  {client.email}
+                </a>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <dt className="text-sm font-medium text-muted-foreground">ID</dt>
+                  <dd className="font-mono text-sm break-all">{client.id}</dd>
+                </div>
+                {clientFields.map((field) => {
+                  const value = client[field.id]
+                  return (
+                    <div key={field.id}>
+                      <dt className="text-sm font-medium text-muted-foreground">{field.label}</dt>
+                      <dd className="text-sm">
+                        {value instanceof Date ? (
+                          <Timestamp date={value} />
+                        ) : field.id === "status" ? (
+                          <StatusBadge status={client.status} />
+                        ) : (
+                          String(value)
+                        )}
+                      </dd>
+                    </div>
+                  )
+                })}
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Status history</CardTitle>
+              <CardDescription>Every status the client has had, most recent first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+              ) : (
+                <ol className="relative space-y-4 border-l pl-6">
+                  {history.map((change, changeIndex) => (
+                    <li key={`${change.changedAt.getTime()}-${changeIndex}`} className="relative">
+                      {/* Timeline dot */}
+                      <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
+                      <div className="flex flex-wrap items-start justify-between gap-2 text-sm">
+                        <StatusBadge status={change.status} />
+                        <Timestamp date={change.changedAt} />
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { clientStatuses, formatEnumValue, type Client } from "@/lib/data"
+import { clientInputSchema, type ClientInput, type ClientInputErrors } from "@/lib/client-schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+
+// Values of the form when adding a client
+const EMPTY_CLIENT_INPUT: ClientInput = { name: "", email: "", status: "pending" }
+
+interface ClientFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  client?: Client | null
+  onSubmit: (values: ClientInput) => Promise<{ errors?: ClientInputErrors }>
+}
+
+/**
+ * Dialog with the form for adding a client, or editing one when `client` is given.
+ * The values are checked against `clientInputSchema` as they are entered; errors returned on submit (such as an
+ * email already in use) are shown under their field, or above the buttons when they concern the whole client.
+ *
+ * @param {ClientFormDialogProps} props - The component props.
+ * @param {boolean} props.open - Whether the dialog is open.
+ * @param {(open: boolean) => void} props.onOpenChange - Callback to open or close the dialog.
+ * @param {Client | null} [props.client] - The client to edit, or nothing to add a new one.
+ * @param {(values: ClientInput) => Promise<{ errors?: ClientInputErrors }>} props.onSubmit - Callback saving the
+ *   values. It resolves with the error message of each rejected field, if any; the dialog closes otherwise.
+ */
+export function ClientFormDialog({ open, onOpenChange, client, onSubmit }: ClientFormDialogProps) {
+  const form = useForm<ClientInput>({
+    resolver: zodResolver(clientInputSchema),
+    defaultValues: EMPTY_CLIENT_INPUT,
+  })
+
+  /**
+   * Effect hook to fill the form with the edited client's values, or empty it, every time the dialog opens.
+   */
+  useEffect(() => {
+    if (open) {
+      form.reset(client ? { name: client.name, email: client.email, status: client.status } : EMPTY_CLIENT_INPUT)
+    }
+  }, [open, client, form])
+
+  const handleSubmit = async (values: ClientInput) => {
+    const { errors } = await onSubmit(values)
+    if (!errors) {
+      onOpenChange(false)
+      return
+    }
+    for (const [field, message] of Object.entries(errors) as [keyof ClientInputErrors, string][]) {
+      form.setError(field, { type: "server", message }, { shouldFocus: true })
+    }
+  }
+
+  const rootError = form.formState.errors.root?.message
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" noValidate>
+            <DialogHeader>
+              <DialogTitle>{client ? "Edit client" : "Add client"}</DialogTitle>
+              <DialogDescription>
+                {client
+                  ? "Update the client's details. Saving marks the client as updated."
+                  : "The new client is placed in the table according to the current sort."}
+              </DialogDescription>
+            </DialogHeader>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Ada Lovelace" autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="e.g. ada@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger ref={field.ref} onBlur={field.onBlur}>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {clientStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {formatEnumValue(status)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {rootError && (
+              <p role="alert" className="text-sm font-medium text-destructive">
+                {rootError}
+              </p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {client ? "Save changes" : "Add client"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import type { ComponentProps, MouseEvent, ReactNode } from "react"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronsLeftIcon, ChevronsRightIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+/**
+ * The page sizes offered in the page size selector.
+ */
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const
+
+interface ClientPaginationProps {
+  page: number
+  pageSize: number
+  totalCount: number
+  onPageChange: (page: number) => void
+  onPageSizeChange: (pageSize: number) => void
+}
+
+/**
+ * Returns the page numbers to show as links: the first and last pages, and the pages next to the current one.
+ * `null` marks a gap, rendered as an ellipsis.
+ */
+const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = []
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+/**
+ * A pagination link that changes the page on click instead of navigating, and can be disabled.
+ */
+function PageLink({
+  onSelect,
+  disabled = false,
+  children,
+  ...props
+}: Omit<ComponentProps<typeof PaginationLink>, "onClick" | "href"> & {
+  onSelect: () => void
+  disabled?: boolean
+  children?: ReactNode
+}) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault()
+    if (!disabled) onSelect()
+  }
+
+  return (
+    <PaginationLink
+      href="#"
+      role="button"
+      onClick={handleClick}
+      aria-disabled={disabled || undefined}
+      tabIndex={disabled ? -1 : undefined}
+      {...props}
+      className={cn("cursor-pointer", disabled && "pointer-events-none opacity-50", props.className)}
+    >
+      {children}
+    </PaginationLink>
+  )
+}
+
+/**
+ * Pagination controls for the client table: a page size selector, first/previous/next/last buttons,
+ * links to nearby pages, and a "Showing X–Y of Z" summary.
+ *
+ * @param {ClientPaginationProps} props - The component props.
+ * @param {number} props.page - The current page, starting at 1.
+ * @param {number} props.pageSize - The number of clients per page.
+ * @param {number} props.totalCount - The number of clients across all pages.
+ * @param {(page: number) => void} props.onPageChange - Callback receiving the page to show.
+ * @param {(pageSize: number) => void} props.onPageSizeChange - Callback receiving the new page size.
+ */
+export function ClientPagination({
+  page,
+  pageSize,
+  totalCount,
+  onPageChange,
+  onPageSizeChange,
+}: ClientPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+  const first = totalCount === 0 ? 0 : (page - 1) * pageSize + 1
+  const last = Math.min(page * pageSize, totalCount)
+  const isFirstPage = page <= 1
+  const isLastPage = page >= pageCount
+
+  return (
+    <div className="flex flex-col items-center justify-between gap-3 sm:flex-row">
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span>Rows per page</span>
+          <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+            <SelectTrigger className="h-8 w-[72px] bg-white dark:bg-gray-900" aria-label="Rows per page">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* Keep a page size from a shared link selectable even if it is not one of the options */}
+              {(PAGE_SIZE_OPTIONS.some((size) => size === pageSize)
+                ? PAGE_SIZE_OPTIONS
+                : [...PAGE_SIZE_OPTIONS, pageSize].sort((a, b) => a - b)
+              ).map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <span aria-live="polite">
+          Showing {first}–{last} of {totalCount}
+        </span>
+      </div>
+
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PageLink onSelect={() => onPageChange(1)} disabled={isFirstPage} aria-label="Go to first page">
+              <ChevronsLeftIcon className="h-4 w-4" />
+            </PageLink>
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={(event) => {
+                event.preventDefault()
+                if (!isFirstPage) onPageChange(page - 1)
+              }}
+              aria-disabled={isFirstPage || undefined}
+              className={cn(isFirstPage && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+          {getPageNumbers(page, pageCount).map((n, index) =>
+            n === null ? (
+              <PaginationItem key={`gap-${index}`}>
+                <PaginationEllipsis />
+              </PaginationItem>
+            ) : (
+              <PaginationItem key={n}>
+                <PageLink onSelect={() => onPageChange(n)} isActive={n === page} aria-label={`Go to page ${n}`}>
+                  {n}
+                </PageLink>
+              </PaginationItem>
+            ),
+          )}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={(event) => {
+                event.preventDefault()
+                if (!isLastPage) onPageChange(page + 1)
+              }}
+              aria-disabled={isLastPage || undefined}
+              className={cn(isLastPage && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+          <PaginationItem>
+            <PageLink onSelect={() => onPageChange(pageCount)} disabled={isLastPage} aria-label="Go to last page">
+              <ChevronsRightIcon className="h-4 w-4" />
+            </PageLink>
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import type { KeyboardEvent } from "react"
+import { clientStatuses, formatEnumValue, type Client, type ClientStatus } from "@/lib/data"
+import type { StatusChange } from "@/lib/client-history"
+import { toast } from "@/hooks/use-toast"
+import { StatusBadge } from "@/components/status-badge"
+import { Timestamp } from "@/components/timestamp"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { ChevronDownIcon, ChevronUpIcon, CopyIcon, ExternalLinkIcon, PencilIcon } from "lucide-react"
+
+// How many of the latest status changes the preview lists
+const PREVIEW_HISTORY_LENGTH = 3
+
+interface ClientPreviewSheetProps {
+  client: Client | undefined
+  history: StatusChange[]
+  index: number
+  total: number
+  onClose: () => void
+  onStep: (delta: number) => void
+  onEdit: (client: Client) => void
+  onStatusChange: (client: Client, status: ClientStatus) => void
+  onOpenPage: (client: Client) => void
+}
+
+/**
+ * Side sheet previewing a client without leaving the list: its details, latest status changes and quick actions
+ * (edit, change status, copy email, open the full page). The Up and Down arrow keys, or the buttons next to the
+ * position, step to the previous and next clients of the list.
+ *
+ * @param {ClientPreviewSheetProps} props - The component props.
+ * @param {Client | undefined} props.client - The previewed client. The sheet is closed when there is none.
+ * @param {StatusChange[]} props.history - The client's status history, oldest first.
+ * @param {number} props.index - The client's position in the list, or -1 if it is not in it (any more).
+ * @param {number} props.total - The number of clients in the list.
+ * @param {() => void} props.onClose - Callback to close the sheet.
+ * @param {(delta: number) => void} props.onStep - Callback to preview the client `delta` positions away in the list.
+ * @param {(client: Client) => void} props.onEdit - Callback to open the client's edit form.
+ * @param {(client: Client, status: ClientStatus) => void} props.onStatusChange - Callback to set the client's status.
+ * @param {(client: Client) => void} props.onOpenPage - Callback to open the client's page.
+ */
+export function ClientPreviewSheet({
+  client,
+  history,
+  index,
+  total,
+  onClose,
+  onStep,
+  onEdit,
+  onStatusChange,
+  onOpenPage,
+}: ClientPreviewSheetProps) {
+  const hasPrevious = index > 0
+  const hasNext = index !== -1 && index < total - 1
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return
+    // Leave the arrow keys to the controls that use them, including the status list rendered in a portal
+    const target = event.target as HTMLElement
+    if (!event.currentTarget.contains(target) || target.closest("input, textarea, [role=combobox], [role=listbox]")) {
+      return
+    }
+    event.preventDefault()
+    if (event.key === "ArrowUp" && hasPrevious) onStep(-1)
+    if (event.key === "ArrowDown" && hasNext) onStep(1)
+  }
+
+  const handleCopyEmail = async (email: string) => {
+    try {
+      await navigator.clipboard.writeText(email)
+      toast({ title: "Email copied", description: email })
+    } catch {
+      toast({ title: "Could not copy the email", description: email, variant: "destructive" })
+    }
+  }
+
+  return (
+    <Sheet open={client !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex w-full flex-col gap-6 overflow-y-auto sm:max-w-md" onKeyDown={handleKeyDown}>
+        {client && (
+          <>
+            <SheetHeader className="space-y-3 pr-6">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span className="tabular-nums">
+                  {index === -1
+                    ? "Not in the current results"
+                    : `${(index + 1).toLocaleString()} of ${total.toLocaleString()}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onStep(-1)}
+                  disabled={!hasPrevious}
+                  aria-label="Previous client"
+                  title="Previous client (↑)"
+                >
+                  <ChevronUpIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onStep(1)}
+                  disabled={!hasNext}
+                  aria-label="Next client"
+                  title="Next client (↓)"
+                >
+                  <ChevronDownIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <SheetTitle className="text-xl">{client.name}</SheetTitle>
+                <StatusBadge status={client.status} />
+              </div>
+              <SheetDescription className="break-all">{client.email}</SheetDescription>
+            </SheetHeader>
+
+            {/* Quick actions */}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => onEdit(client)}>
+                <PencilIcon className="h-4 w-4" /> Edit
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleCopyEmail(client.email)}>
+                <CopyIcon className="h-4 w-4" /> Copy email
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onOpenPage(client)}>
+                <ExternalLinkIcon className="h-4 w-4" /> Open page
+              </Button>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div className="col-span-2 space-y-1">
+                <dt className="font-medium text-muted-foreground">Status</dt>
+                <dd>
+                  <Select
+                    value={client.status}
+                    onValueChange={(value) => onStatusChange(client, value as ClientStatus)}
+                  >
+                    <SelectTrigger className="w-[160px]" aria-label="Change status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clientStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {formatEnumValue(status)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </dd>
+              </div>
+              <div className="space-y-1">
+                <dt className="font-medium text-muted-foreground">Created</dt>
+                <dd>
+                  <Timestamp date={client.createdAt} />
+                </dd>
+              </div>
+              <div className="space-y-1">
+                <dt className="font-medium text-muted-foreground">Updated</dt>
+                <dd>
+                  <Timestamp date={client.updatedAt} />
+                </dd>
+              </div>
+            </dl>
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground">Recent status changes</h3>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {history
+                    .slice(-PREVIEW_HISTORY_LENGTH)
+                    .reverse()
+                    .map((change, changeIndex) => (
+                      <li
+                        key={`${change.changedAt.getTime()}-${changeIndex}`}
+                        className="flex items-start justify-between gap-2 text-sm"
+                      >
+                        <StatusBadge status={change.status} />
+                        <Timestamp date={change.changedAt} />
+                      </li>
+                    ))}
+                </ol>
+              )}
+            </section>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
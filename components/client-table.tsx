@@ -1,83 +1,688 @@
 "use client"
 
-import type { Client } from "@/lib/data"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type MouseEvent,
+  type PointerEvent,
+  type ReactNode,
+} from "react"
+import { clientFields, formatEnumValue, type Client, type ClientFieldId, type FieldDefinition } from "@/lib/data"
+import {
+  DEFAULT_COLUMN_ORDER,
+  MIN_COLUMN_WIDTH,
+  arrangeColumns,
+  getColumnWidth,
+  getPinnedOffsets,
+  type ColumnWidths,
+} from "@/lib/columns"
+import type { SelectAllState } from "@/lib/selection"
+import { isEditableClientField, type ClientChanges, type EditableClientField } from "@/lib/client-edit"
+import { toggleHeaderSort, type SortCriterion } from "@/lib/sort-utils"
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Progress } from "@/components/ui/progress"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Button } from "@/components/ui/button"
 import { format } from "date-fns"
-import { motion } from "framer-motion" // Import motion for animations
+import { motion, type Variants } from "framer-motion" // Import motion for animations
+import { ArrowDownIcon, ArrowUpIcon, PencilIcon, PinIcon, PinOffIcon } from "lucide-react"
+import { Highlight } from "@/components/highlight"
+import { CellEditor } from "@/components/cell-editor"
+import { StatusBadge } from "@/components/status-badge"
+import { useVirtualRows } from "@/hooks/use-virtual-rows"
+import { cn } from "@/lib/utils"
+
+// Height of every body row, in pixels; rows are kept on one line so virtualization can rely on it
+const ROW_HEIGHT = 49
+// Height of the scrolling table body, in pixels
+const VIEWPORT_HEIGHT = 600
+// Delay between the fade-ins of consecutive rows, in seconds
+const ROW_STAGGER = 0.05
+// Horizontal padding of a cell, added to its content when auto-fitting a column, in pixels
+const CELL_PADDING = 32
+// The widest a column gets when auto-fitting it, in pixels
+const MAX_AUTO_FIT_WIDTH = 480
+// How much the arrow keys resize a column, in pixels
+const RESIZE_STEP = 10
+// Width of the selection checkbox column, in pixels
+const SELECTION_COLUMN_WIDTH = 44
+// Width of the row actions column, in pixels
+const ACTIONS_COLUMN_WIDTH = 52
+// How long a click on an editable cell waits for a second click (which edits it) before opening the client, in ms
+const DOUBLE_CLICK_DELAY = 250
+// The controls inside a row, whose clicks do not open the client
+const ROW_CONTROLS = "button, a, input, [role=checkbox], [role=combobox]"
 
 interface ClientTableProps {
   clients: Client[]
+  sortCriteria: SortCriterion[]
+  onSortCriteriaChange: (criteria: SortCriterion[]) => void
+  searchQuery?: string
+  hiddenColumns?: ClientFieldId[]
+  columnOrder?: ClientFieldId[]
+  columnWidths?: ColumnWidths
+  onColumnWidthsChange?: (widths: ColumnWidths) => void
+  pinnedColumns?: ClientFieldId[]
+  onPinnedColumnsChange?: (pinned: ClientFieldId[]) => void
+  selectedIds?: ReadonlySet<string>
+  selectAllState?: SelectAllState
+  onToggleSelect?: (id: string, range: boolean) => void
+  onToggleSelectAll?: () => void
+  onClientChange?: (id: string, changes: ClientChanges) => void
+  onEditClient?: (client: Client) => void
+  onOpenClient?: (client: Client, scrollTop: number) => void
+  initialScrollTop?: number
+  loading?: boolean
+  progress?: number
+}
+
+/**
+ * @typedef {Object} ClientColumn
+ * How a client field is displayed as a table column.
+ * @property {ClientFieldId} field - The field the column displays.
+ * @property {string} label - The header label.
+ * @property {string} [cellClassName] - Extra classes for the body cells.
+ * @property {(client: Client, searchQuery: string) => ReactNode} renderCell - Renders a client's value.
+ */
+type ClientColumn = {
+  field: ClientFieldId
+  label: string
+  cellClassName?: string
+  renderCell: (client: Client, searchQuery: string) => ReactNode
+}
+
+/**
+ * Renders a field's value according to its type: dates are formatted, text is highlighted where it matches
+ * the quick search, and enum values are capitalized.
+ */
+const renderValue = (field: FieldDefinition, client: Client, searchQuery: string): ReactNode => {
+  const value: unknown = client[field.id]
+  switch (field.type) {
+    case "date":
+      return value instanceof Date ? format(value, "MMM dd, yyyy HH:mm") : null
+    case "string":
+      return typeof value === "string" ? <Highlight text={value} query={searchQuery} /> : null
+    case "enum":
+      return typeof value === "string" ? <Highlight text={formatEnumValue(value)} query={searchQuery} /> : null
+    default:
+      return value === undefined || value === null ? null : String(value)
+  }
+}
+
+// Per-field refinements of the columns derived from the field types
+const columnOverrides: Partial<Record<ClientFieldId, Partial<ClientColumn>>> = {
+  name: { cellClassName: "font-medium" },
+  status: { renderCell: (client, searchQuery) => <StatusBadge status={client.status} searchQuery={searchQuery} /> },
+}
+
+/**
+ * The column model: one column per client field, derived from `clientFields`.
+ */
+const columns = Object.fromEntries(
+  clientFields.map((field): [ClientFieldId, ClientColumn] => [
+    field.id,
+    {
+      field: field.id,
+      label: field.label,
+      renderCell: (client, searchQuery) => renderValue(field, client, searchQuery),
+      ...columnOverrides[field.id],
+    },
+  ]),
+) as Record<ClientFieldId, ClientColumn>
+
+interface ColumnResizeHandleProps {
+  label: string
+  width: number
+  onResize: (width: number) => void
+  onResizeEnd: (width: number) => void
+  onAutoFit: () => void
+}
+
+/**
+ * The draggable right edge of a column header. Dragging resizes the column, double-clicking fits it to its
+ * content, and the arrow keys resize it when the handle has focus.
+ *
+ * @param {ColumnResizeHandleProps} props - The component props.
+ * @param {string} props.label - The column label, for screen readers.
+ * @param {number} props.width - The current column width, in pixels.
+ * @param {(width: number) => void} props.onResize - Callback receiving the width while dragging.
+ * @param {(width: number) => void} props.onResizeEnd - Callback receiving the final width.
+ * @param {() => void} props.onAutoFit - Callback to fit the column to its content.
+ */
+function ColumnResizeHandle({ label, width, onResize, onResizeEnd, onAutoFit }: ColumnResizeHandleProps) {
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    // Do not start a text selection or a click on the header
+    event.preventDefault()
+    event.stopPropagation()
+    const handle = event.currentTarget
+    const startX = event.clientX
+    const widthAt = (clientX: number) => Math.max(MIN_COLUMN_WIDTH, Math.round(width + clientX - startX))
+
+    const handleMove = (moveEvent: globalThis.PointerEvent) => onResize(widthAt(moveEvent.clientX))
+    const handleEnd = (endEvent: globalThis.PointerEvent) => {
+      handle.removeEventListener("pointermove", handleMove)
+      handle.removeEventListener("pointerup", handleEnd)
+      handle.removeEventListener("pointercancel", handleEnd)
+      onResizeEnd(widthAt(endEvent.clientX))
+    }
+    handle.setPointerCapture(event.pointerId)
+    handle.addEventListener("pointermove", handleMove)
+    handle.addEventListener("pointerup", handleEnd)
+    handle.addEventListener("pointercancel", handleEnd)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return
+    event.preventDefault()
+    onResizeEnd(Math.max(MIN_COLUMN_WIDTH, width + (event.key === "ArrowRight" ? RESIZE_STEP : -RESIZE_STEP)))
+  }
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize the ${label} column`}
+      aria-valuenow={width}
+      aria-valuemin={MIN_COLUMN_WIDTH}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onDoubleClick={onAutoFit}
+      onKeyDown={handleKeyDown}
+      title="Drag to resize, double-click to fit the content"
+      className="absolute right-0 top-0 h-full w-2 cursor-col-resize touch-none select-none after:absolute after:right-0 after:top-1/4 after:h-1/2 after:w-px after:bg-border hover:bg-primary/20 focus-visible:bg-primary/30 focus-visible:outline-none"
+    />
+  )
+}
+
+interface SortableHeaderProps {
+  field: ClientFieldId
+  label: string
+  width: number
+  pinnedOffset?: number
+  sortCriteria: SortCriterion[]
+  onSortCriteriaChange: (criteria: SortCriterion[]) => void
+  onTogglePin?: (field: ClientFieldId) => void
+  onResize: (field: ClientFieldId, width: number) => void
+  onResizeEnd?: (field: ClientFieldId, width: number) => void
+  onAutoFit: (field: ClientFieldId) => void
+}
+
+/**
+ * A clickable column header that drives the sort criteria.
+ * Click sorts by this column alone (toggling direction if it is already primary); shift-click adds it as an
+ * additional criterion or cycles it asc → desc → removed. Shows the direction and, when several criteria are
+ * active, the column's sort priority. The header also pins the column and resizes it.
+ *
+ * @param {SortableHeaderProps} props - The component props.
+ * @param {ClientFieldId} props.field - The field this column displays.
+ * @param {string} props.label - The column label.
+ * @param {number} props.width - The column width, in pixels.
+ * @param {number} [props.pinnedOffset] - The column's distance from the left edge when it is pinned.
+ * @param {SortCriterion[]} props.sortCriteria - The current sort criteria.
+ * @param {(criteria: SortCriterion[]) => void} props.onSortCriteriaChange - Callback to update the sort criteria.
+ * @param {(field: ClientFieldId) => void} [props.onTogglePin] - Callback to pin or unpin the column.
+ * @param {(field: ClientFieldId, width: number) => void} props.onResize - Callback receiving the width while resizing.
+ * @param {(field: ClientFieldId, width: number) => void} [props.onResizeEnd] - Callback receiving the final width.
+ *   The column cannot be resized without it.
+ * @param {(field: ClientFieldId) => void} props.onAutoFit - Callback to fit the column to its content.
+ */
+function SortableHeader({
+  field,
+  label,
+  width,
+  pinnedOffset,
+  sortCriteria,
+  onSortCriteriaChange,
+  onTogglePin,
+  onResize,
+  onResizeEnd,
+  onAutoFit,
+}: SortableHeaderProps) {
+  const priority = sortCriteria.findIndex((c) => c.field === field)
+  const criterion = priority !== -1 ? sortCriteria[priority] : undefined
+  const pinned = pinnedOffset !== undefined
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    onSortCriteriaChange(toggleHeaderSort(sortCriteria, field, event.shiftKey))
+  }
+
+  return (
+    <TableHead
+      data-column={field}
+      className={cn("group/header relative", pinned && "sticky z-20 bg-background")}
+      style={pinned ? { left: pinnedOffset } : undefined}
+      aria-sort={criterion ? (criterion.direction === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <div data-cell-content className="flex items-center gap-1 overflow-hidden">
+        <button
+          type="button"
+          onClick={handleClick}
+          className={cn(
+            "inline-flex min-w-0 items-center gap-1 font-medium hover:text-foreground transition-colors",
+            criterion && "text-foreground",
+          )}
+          title="Click to sort, Shift+click to add to the sort"
+        >
+          <span className="truncate">{label}</span>
+          {criterion &&
+            (criterion.direction === "asc" ? (
+              <ArrowUpIcon className="h-3 w-3 shrink-0" />
+            ) : (
+              <ArrowDownIcon className="h-3 w-3 shrink-0" />
+            ))}
+          {/* Priority number, only meaningful when sorting by more than one column */}
+          {criterion && sortCriteria.length > 1 && (
+            <span className="text-[10px] leading-none tabular-nums text-muted-foreground">{priority + 1}</span>
+          )}
+        </button>
+        {/* Pin toggle, always visible on pinned columns and on hover otherwise */}
+        {onTogglePin && (
+          <button
+            type="button"
+            onClick={() => onTogglePin(field)}
+            className={cn(
+              "shrink-0 rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground focus-visible:opacity-100",
+              pinned ? "opacity-100" : "opacity-0 group-hover/header:opacity-100",
+            )}
+            aria-label={pinned ? `Unpin the ${label} column` : `Pin the ${label} column to the left`}
+            aria-pressed={pinned}
+          >
+            {pinned ? <PinOffIcon className="h-3 w-3" /> : <PinIcon className="h-3 w-3" />}
+          </button>
+        )}
+      </div>
+      {onResizeEnd && (
+        <ColumnResizeHandle
+          label={label}
+          width={width}
+          onResize={(next) => onResize(field, next)}
+          onResizeEnd={(next) => onResizeEnd(field, next)}
+          onAutoFit={() => onAutoFit(field)}
+        />
+      )}
+    </TableHead>
+  )
 }
 
 /**
  * Renders a table displaying client data.
- * Includes subtle fade-in animations for rows using Framer Motion.
+ * Only the rows within (or near) the visible part of the fixed-height scroll area are rendered, so large lists
+ * stay fast; the header sticks to the top while scrolling. Rows in the initially visible window fade in with a
+ * stagger using Framer Motion, the others appear without delay. Column headers are sortable.
+ * Columns can be resized by dragging their header's right edge (double-click fits them to their content), and
+ * pinned to the left so they stay visible while scrolling sideways.
+ * When selection is enabled, a checkbox column stays pinned first; shift-clicking a checkbox toggles the range
+ * from the last one clicked.
+ * When editing is enabled, double-clicking a name, email or status cell edits it in place; once saved, the row
+ * animates to its new position in the sort order.
+ * While the clients are being sorted, placeholder rows and a progress bar are shown instead.
  *
  * @param {ClientTableProps} props - The component props.
  * @param {Client[]} props.clients - An array of client objects to display.
+ * @param {SortCriterion[]} props.sortCriteria - The current sort criteria, reflected in the headers.
+ * @param {(criteria: SortCriterion[]) => void} props.onSortCriteriaChange - Callback to update the sort criteria.
+ * @param {string} [props.searchQuery] - Quick search text whose matches are highlighted in the name, email and status.
+ * @param {ClientFieldId[]} [props.hiddenColumns] - Columns to leave out of the table.
+ * @param {ClientFieldId[]} [props.columnOrder] - The order of the columns.
+ * @param {ColumnWidths} [props.columnWidths] - The widths of resized columns.
+ * @param {(widths: ColumnWidths) => void} [props.onColumnWidthsChange] - Callback receiving the new column widths.
+ *   Columns can only be resized when it is provided.
+ * @param {ClientFieldId[]} [props.pinnedColumns] - The columns pinned to the left.
+ * @param {(pinned: ClientFieldId[]) => void} [props.onPinnedColumnsChange] - Callback receiving the new pinned
+ *   columns. Columns can only be pinned when it is provided.
+ * @param {ReadonlySet<string>} [props.selectedIds] - The IDs of the selected clients.
+ * @param {SelectAllState} [props.selectAllState] - The state of the "select all" checkbox, which covers every
+ *   client of the results rather than only those of this page.
+ * @param {(id: string, range: boolean) => void} [props.onToggleSelect] - Callback to select or deselect a client,
+ *   or a range of clients on shift-click. The selection column is only shown when it is provided.
+ * @param {() => void} [props.onToggleSelectAll] - Callback to select or deselect every client of the results.
+ * @param {(id: string, changes: ClientChanges) => void} [props.onClientChange] - Callback receiving a client's
+ *   edited values. Cells can only be edited when it is provided.
+ * @param {(client: Client) => void} [props.onEditClient] - Callback to open a client's edit form. Each row ends
+ *   with an edit button when it is provided.
+ * @param {(client: Client, scrollTop: number) => void} [props.onOpenClient] - Callback to open a client (e.g. in a
+ *   preview), called when its row is clicked (or focused and Enter is pressed) with the scroll offset of the table
+ *   body.
+ * @param {number} [props.initialScrollTop] - A scroll offset of the table body to restore, e.g. when coming back
+ *   from a client's page.
+ * @param {boolean} [props.loading] - Whether the clients are being sorted, so their order is not final yet.
+ * @param {number} [props.progress] - How far the running sort is, from 0 to 100.
  */
-export function ClientTable({ clients }: ClientTableProps) {
+export function ClientTable({
+  clients,
+  sortCriteria,
+  onSortCriteriaChange,
+  searchQuery = "",
+  hiddenColumns = [],
+  columnOrder = DEFAULT_COLUMN_ORDER,
+  columnWidths = {},
+  onColumnWidthsChange,
+  pinnedColumns = [],
+  onPinnedColumnsChange,
+  selectedIds,
+  selectAllState = false,
+  onToggleSelect,
+  onToggleSelectAll,
+  onClientChange,
+  onEditClient,
+  onOpenClient,
+  initialScrollTop,
+  loading = false,
+  progress = 0,
+}: ClientTableProps) {
   // Framer Motion variants for row animation
-  const rowVariants = {
+  const rowVariants: Variants = {
     hidden: { opacity: 0, y: 20 },
     visible: { opacity: 1, y: 0, transition: { duration: 0.3, ease: "easeOut" } },
   }
 
+  // The width of the column being resized, applied locally until the drag ends
+  const [resizing, setResizing] = useState<{ field: ClientFieldId; width: number } | null>(null)
+  const widths = resizing ? { ...columnWidths, [resizing.field]: resizing.width } : columnWidths
+  // The cell being edited in place, if any
+  const [editing, setEditing] = useState<{ id: string; field: EditableClientField } | null>(null)
+
+  const selectable = onToggleSelect !== undefined
+  const selectionWidth = selectable ? SELECTION_COLUMN_WIDTH : 0
+  const visibleColumns = arrangeColumns(columnOrder, hiddenColumns, pinnedColumns).map((field) => columns[field])
+  const pinnedOffsets = getPinnedOffsets(
+    visibleColumns.map((column) => column.field),
+    pinnedColumns,
+    widths,
+    selectionWidth,
+  )
+  const lastPinned = visibleColumns.filter((column) => pinnedOffsets[column.field] !== undefined).pop()?.field
+  const actionsWidth = onEditClient ? ACTIONS_COLUMN_WIDTH : 0
+  const tableWidth = visibleColumns.reduce(
+    (total, column) => total + getColumnWidth(column.field, widths),
+    selectionWidth + actionsWidth,
+  )
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0) + (onEditClient ? 1 : 0)
+
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const tableRef = useRef<HTMLTableElement>(null)
+  const { start, end, paddingTop, paddingBottom, visibleCount } = useVirtualRows({
+    viewportRef,
+    count: clients.length,
+    rowHeight: ROW_HEIGHT,
+    initialHeight: VIEWPORT_HEIGHT,
+  })
+
+  /**
+   * Effect hook to restore the scroll offset of the table body when one is given.
+   */
+  useEffect(() => {
+    if (initialScrollTop !== undefined && viewportRef.current) {
+      viewportRef.current.scrollTop = initialScrollTop
+    }
+  }, [initialScrollTop])
+
+  // Pending opening of a client, delayed in case the click is the first of a double-click
+  const clickTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined)
+  useEffect(() => () => clearTimeout(clickTimerRef.current), [])
+
+  /**
+   * Opens the clicked row's client. Clicks on the row's controls or on a cell being edited are ignored, and
+   * clicks on editable cells wait briefly, since double-clicking them edits the cell instead.
+   * @param {MouseEvent<HTMLTableRowElement>} event - The click event.
+   * @param {Client} client - The row's client.
+   */
+  const handleRowClick = (event: MouseEvent<HTMLTableRowElement>, client: Client) => {
+    if (!onOpenClient) return
+    const target = event.target as HTMLElement
+    if (editing || target.closest(ROW_CONTROLS)) return
+    clearTimeout(clickTimerRef.current)
+    if (event.detail > 1) return
+    const open = () => onOpenClient(client, viewportRef.current?.scrollTop ?? 0)
+    const field = target.closest("td")?.getAttribute("data-column") ?? ""
+    if (onClientChange && isEditableClientField(field)) {
+      clickTimerRef.current = setTimeout(open, DOUBLE_CLICK_DELAY)
+    } else {
+      open()
+    }
+  }
+
+  /**
+   * Saves a column's width once resizing ends.
+   * @param {ClientFieldId} field - The resized column.
+   * @param {number} width - Its new width, in pixels.
+   */
+  const handleResizeEnd = useCallback(
+    (field: ClientFieldId, width: number) => {
+      setResizing(null)
+      onColumnWidthsChange?.({ ...columnWidths, [field]: width })
+    },
+    [columnWidths, onColumnWidthsChange],
+  )
+
+  /**
+   * Fits a column to the widest of its header and its rendered cells. Only the rows currently rendered are
+   * measured, since the others are virtualized away.
+   * @param {ClientFieldId} field - The column to fit.
+   */
+  const handleAutoFit = useCallback(
+    (field: ClientFieldId) => {
+      const contents = tableRef.current?.querySelectorAll(`[data-column="${field}"] [data-cell-content]`) ?? []
+      const contentWidth = Math.max(0, ...Array.from(contents, (content) => content.scrollWidth))
+      const width = Math.min(MAX_AUTO_FIT_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.ceil(contentWidth + CELL_PADDING)))
+      onColumnWidthsChange?.({ ...columnWidths, [field]: width })
+    },
+    [columnWidths, onColumnWidthsChange],
+  )
+
+  /**
+   * Pins a column to the left, or unpins it.
+   * @param {ClientFieldId} field - The column to toggle.
+   */
+  const handleTogglePin = useCallback(
+    (field: ClientFieldId) => {
+      onPinnedColumnsChange?.(
+        pinnedColumns.includes(field) ? pinnedColumns.filter((pinned) => pinned !== field) : [...pinnedColumns, field],
+      )
+    },
+    [pinnedColumns, onPinnedColumnsChange],
+  )
+
+  /**
+   * Saves the value edited in place and closes the editor.
+   * @param {string} id - The ID of the edited client.
+   * @param {ClientChanges} changes - The new value.
+   */
+  const handleEditCommit = useCallback(
+    (id: string, changes: ClientChanges) => {
+      setEditing(null)
+      onClientChange?.(id, changes)
+    },
+    [onClientChange],
+  )
+
+  /**
+   * Classes and offset making a body cell stick to the left when its column is pinned.
+   * @param {ClientFieldId} field - The cell's column.
+   */
+  const pinnedCellProps = (field: ClientFieldId) =>
+    pinnedOffsets[field] === undefined
+      ? {}
+      : {
+          className: cn(
+            "sticky z-[1] bg-background group-hover/row:bg-gray-50 group-data-[state=selected]/row:bg-gray-50",
+            field === lastPinned && "shadow-[1px_0_0_hsl(var(--border))]",
+          ),
+          style: { left: pinnedOffsets[field] },
+        }
+
   return (
-    <div className="rounded-md border overflow-hidden shadow-sm">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead className="w-[150px]">Name</TableHead>
-            <TableHead className="w-[200px]">Email</TableHead>
-            <TableHead className="w-[180px]">Created At</TableHead>
-            <TableHead className="w-[180px]">Updated At</TableHead>
-            <TableHead className="w-[120px]">Status</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {clients.length > 0 ? (
-            clients.map((client, index) => (
-              // Use motion.tr for animated table rows
-              <motion.tr
-                key={client.id}
-                initial="hidden"
-                animate="visible"
-                variants={rowVariants}
-                transition={{ delay: index * 0.05 }} // Stagger animation for each row
-                className="hover:bg-gray-50 data-[state=selected]:bg-gray-50"
-              >
-                <TableCell className="font-medium">{client.name}</TableCell>
-                <TableCell>{client.email}</TableCell>
-                <TableCell>{format(client.createdAt, "MMM dd, yyyy HH:mm")}</TableCell>
-                <TableCell>{format(client.updatedAt, "MMM dd, yyyy HH:mm")}</TableCell>
-                <TableCell>
-                  {/* Status badge with dynamic styling */}
-                  <span
-                    className={`px-2 py-1 rounded-full text-xs font-semibold transition-colors duration-200 ${
-                      client.status === "active"
-                        ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                        : client.status === "inactive"
-                          ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
-                          : client.status === "pending"
-                            ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
-                            : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
-                    }`}
-                  >
-                    {client.status.charAt(0).toUpperCase() + client.status.slice(1)}
-                  </span>
-                </TableCell>
-              </motion.tr>
-            ))
-          ) : (
+    <div className="relative rounded-md border overflow-hidden shadow-sm" aria-busy={loading}>
+      {loading && (
+        <Progress value={progress} className="absolute inset-x-0 top-0 z-20 h-1 rounded-none" aria-label="Sorting" />
+      )}
+      <ScrollArea viewportRef={viewportRef} horizontalScrollbar style={{ height: VIEWPORT_HEIGHT }}>
+        {/* A plain table rather than <Table />, whose own overflow wrapper would stop the header from sticking */}
+        <table ref={tableRef} className="min-w-full table-fixed caption-bottom text-sm" style={{ width: tableWidth }}>
+          <colgroup>
+            {selectable && <col style={{ width: SELECTION_COLUMN_WIDTH }} />}
+            {visibleColumns.map((column) => (
+              <col key={column.field} style={{ width: getColumnWidth(column.field, widths) }} />
+            ))}
+            {onEditClient && <col style={{ width: ACTIONS_COLUMN_WIDTH }} />}
+          </colgroup>
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
             <TableRow>
-              <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
-                No clients found matching the criteria.
-              </TableCell>
+              {selectable && (
+                <TableHead className="sticky left-0 z-20 bg-background">
+                  <Checkbox
+                    checked={selectAllState}
+                    onCheckedChange={onToggleSelectAll}
+                    aria-label="Select all clients"
+                    className="align-middle"
+                  />
+                </TableHead>
+              )}
+              {visibleColumns.map((column) => (
+                <SortableHeader
+                  key={column.field}
+                  field={column.field}
+                  label={column.label}
+                  width={getColumnWidth(column.field, widths)}
+                  pinnedOffset={pinnedOffsets[column.field]}
+                  sortCriteria={sortCriteria}
+                  onSortCriteriaChange={onSortCriteriaChange}
+                  onTogglePin={onPinnedColumnsChange && handleTogglePin}
+                  onResize={(field, width) => setResizing({ field, width })}
+                  onResizeEnd={onColumnWidthsChange && handleResizeEnd}
+                  onAutoFit={handleAutoFit}
+                />
+              ))}
+              {onEditClient && (
+                <TableHead>
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              )}
             </TableRow>
-          )}
-        </TableBody>
-      </Table>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              // Placeholder rows while the clients are being sorted
+              Array.from({ length: Math.min(clients.length, visibleCount) }, (_, index) => (
+                <TableRow key={index} style={{ height: ROW_HEIGHT }}>
+                  {selectable && <TableCell className="sticky left-0 z-[1] bg-background" />}
+                  {visibleColumns.map((column) => (
+                    <TableCell key={column.field} {...pinnedCellProps(column.field)}>
+                      <Skeleton className="h-4 w-3/4" />
+                    </TableCell>
+                  ))}
+                  {onEditClient && <TableCell />}
+                </TableRow>
+              ))
+            ) : clients.length > 0 ? (
+              <>
+                {/* Space standing in for the rows scrolled past */}
+                {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                {clients.slice(start, end).map((client, offset) => {
+                  const index = start + offset
+                  // Only the rows of the initial window are staggered; rows scrolled into view appear immediately
+                  const staggered = index < visibleCount
+                  const selected = selectedIds?.has(client.id) ?? false
+                  return (
+                    // Use motion.tr for animated table rows
+                    <motion.tr
+                      key={client.id}
+                      // Animates rows to their new position when an edit moves them in the sort order
+                      layout="position"
+                      initial={staggered ? "hidden" : false}
+                      animate="visible"
+                      variants={rowVariants}
+                      transition={{ delay: staggered ? index * ROW_STAGGER : 0 }}
+                      style={{ height: ROW_HEIGHT }}
+                      data-state={selected ? "selected" : undefined}
+                      className={cn(
+                        "group/row border-b hover:bg-gray-50 data-[state=selected]:bg-gray-50",
+                        onOpenClient && "cursor-pointer focus-visible:outline-none focus-visible:bg-gray-50",
+                      )}
+                      onClick={(event) => handleRowClick(event, client)}
+                      tabIndex={onOpenClient ? 0 : undefined}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter" && event.target === event.currentTarget) {
+                          onOpenClient?.(client, viewportRef.current?.scrollTop ?? 0)
+                        }
+                      }}
+                    >
+                      {selectable && (
+                        <TableCell className="sticky left-0 z-[1] py-0 bg-background group-hover/row:bg-gray-50 group-data-[state=selected]/row:bg-gray-50">
+                          <Checkbox
+                            checked={selected}
+                            // Read from the click rather than onCheckedChange, which does not carry the Shift key
+                            onClick={(event) => onToggleSelect(client.id, event.shiftKey)}
+                            // Keep shift-click from selecting the text between the rows
+                            onMouseDown={(event) => event.shiftKey && event.preventDefault()}
+                            aria-label={`Select ${client.name}`}
+                            className="align-middle"
+                          />
+                        </TableCell>
+                      )}
+                      {visibleColumns.map((column) => {
+                        const pinned = pinnedCellProps(column.field)
+                        const { field } = column
+                        const editable = onClientChange !== undefined && isEditableClientField(field)
+                        const isEditing = editing?.id === client.id && editing.field === field
+                        return (
+                          <TableCell
+                            key={field}
+                            data-column={field}
+                            className={cn("py-0", column.cellClassName, pinned.className)}
+                            style={pinned.style}
+                            onDoubleClick={editable ? () => setEditing({ id: client.id, field }) : undefined}
+                            title={editable && !isEditing ? "Double-click to edit" : undefined}
+                          >
+                            {isEditing && isEditableClientField(field) ? (
+                              <CellEditor
+                                client={client}
+                                field={field}
+                                onCommit={(changes) => handleEditCommit(client.id, changes)}
+                                onCancel={() => setEditing(null)}
+                              />
+                            ) : (
+                              <div data-cell-content className="truncate">
+                                {column.renderCell(client, searchQuery)}
+                              </div>
+                            )}
+                          </TableCell>
+                        )
+                      })}
+                      {onEditClient && (
+                        <TableCell className="py-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => onEditClient(client)}
+                            aria-label={`Edit ${client.name}`}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </motion.tr>
+                  )
+                })}
+                {/* Space standing in for the rows below the window */}
+                {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+              </>
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="h-24 text-center text-muted-foreground">
+                  No clients found matching the criteria.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </table>
+      </ScrollArea>
     </div>
   )
 }
@@ -0,0 +1,125 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react"
+import { MOCK_CLIENT_SEED, type Client } from "@/lib/data"
+import type { ClientChanges } from "@/lib/client-edit"
+import type { ClientInput } from "@/lib/client-schema"
+import { generateMockStatusHistory, recordStatusChanges, type StatusHistory } from "@/lib/client-history"
+import {
+  createClientRequest,
+  deleteClientRequest,
+  describeClientRequestError,
+  fetchAllClients,
+  updateClientRequest,
+} from "@/lib/clients-api"
+import { toast } from "@/hooks/use-toast"
+
+type ClientsContextValue = {
+  clients: Client[]
+  loading: boolean
+  statusHistory: StatusHistory
+  createClient: (values: ClientInput) => Promise<Client>
+  updateClient: (id: string, changes: ClientChanges) => Promise<Client>
+  deleteClient: (id: string) => Promise<void>
+}
+
+const ClientsContext = createContext<ClientsContextValue | null>(null)
+
+/**
+ * Holds the clients shared by the dashboard and the client detail pages, loaded from the clients API, along with
+ * the status history of every client. Clients are created, updated and deleted through the API, and the clients
+ * held here are updated with its responses; status changes are recorded in the history.
+ *
+ * @param {Object} props - The component props.
+ * @param {ReactNode} props.children - The pages using the clients.
+ */
+export function ClientsProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<{ clients: Client[]; statusHistory: StatusHistory; loading: boolean }>({
+    clients: [],
+    statusHistory: {},
+    loading: true,
+  })
+
+  /**
+   * Effect hook to load the clients from the API once, page by page.
+   */
+  useEffect(() => {
+    let cancelled = false
+    fetchAllClients()
+      .then((clients) => {
+        if (cancelled) return
+        setState({ clients, statusHistory: generateMockStatusHistory(clients, MOCK_CLIENT_SEED), loading: false })
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setState((current) => ({ ...current, loading: false }))
+        toast({
+          title: "The clients could not be loaded",
+          description: describeClientRequestError(error),
+          variant: "destructive",
+        })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  /**
+   * Replaces the clients held here, recording the status changes.
+   * @param {(clients: Client[]) => Client[]} update - Computes the new clients from the current ones.
+   */
+  const updateClients = useCallback((update: (clients: Client[]) => Client[]) => {
+    setState(({ clients, statusHistory, loading }) => {
+      const next = update(clients)
+      return { clients: next, statusHistory: recordStatusChanges(statusHistory, clients, next), loading }
+    })
+  }, [])
+
+  const createClient = useCallback(
+    async (values: ClientInput) => {
+      const client = await createClientRequest(values)
+      updateClients((clients) => [client, ...clients])
+      return client
+    },
+    [updateClients],
+  )
+
+  const updateClient = useCallback(
+    async (id: string, changes: ClientChanges) => {
+      const client = await updateClientRequest(id, changes)
+      updateClients((clients) => clients.map((c) => (c.id === id ? client : c)))
+      return client
+    },
+    [updateClients],
+  )
+
+  const deleteClient = useCallback(
+    async (id: string) => {
+      await deleteClientRequest(id)
+      updateClients((clients) => clients.filter((c) => c.id !== id))
+    },
+    [updateClients],
+  )
+
+  const value = useMemo(
+    () => ({ ...state, createClient, updateClient, deleteClient }),
+    [state, createClient, updateClient, deleteClient],
+  )
+
+  return <ClientsContext.Provider value={value}>{children}</ClientsContext.Provider>
+}
+
+/**
+ * Returns the shared clients, whether they are still loading, their status history, and the actions saving
+ * changes through the clients API. The actions reject with a `ClientRequestError` when the API refuses a change.
+ * Must be used inside a `ClientsProvider`.
+ *
+ * @returns {ClientsContextValue}
+ */
+export function useClients() {
+  const context = useContext(ClientsContext)
+  if (!context) {
+    throw new Error("useClients must be used within a ClientsProvider.")
+  }
+  return context
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { collationLocales, DEFAULT_COLLATION, type CollationOptions } from "@/lib/collation"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+// Radix Select items cannot have an empty value, so the browser's locale gets a sentinel.
+const BROWSER_LOCALE = "default"
+
+interface CollationEditorProps {
+  id: string
+  collation: CollationOptions | undefined
+  onCollationChange: (collation: CollationOptions) => void
+}
+
+/**
+ * Edits the collation settings of a string sort criterion: locale, case and accent sensitivity,
+ * and natural (numeric) ordering.
+ *
+ * @param {CollationEditorProps} props - The component props.
+ * @param {string} props.id - Prefix for the generated input IDs, unique per criterion.
+ * @param {CollationOptions | undefined} props.collation - The current settings; omitted ones use `DEFAULT_COLLATION`.
+ * @param {(collation: CollationOptions) => void} props.onCollationChange - Callback receiving the updated settings.
+ */
+export function CollationEditor({ id, collation, onCollationChange }: CollationEditorProps) {
+  const current = { ...DEFAULT_COLLATION, ...collation }
+
+  // Boolean settings rendered as checkboxes
+  const toggles = [
+    { key: "caseSensitive", label: "Case sensitive" },
+    { key: "accentSensitive", label: "Accent sensitive" },
+    { key: "numeric", label: "Natural numbers (2 < 10)" },
+  ] as const
+
+  return (
+    <div className="space-y-2 text-xs">
+      <Select
+        value={current.locale || BROWSER_LOCALE}
+        onValueChange={(value) =>
+          onCollationChange({ ...current, locale: value === BROWSER_LOCALE ? undefined : value })
+        }
+      >
+        <SelectTrigger className="h-8 text-xs" aria-label="Collation locale">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BROWSER_LOCALE}>Browser default</SelectItem>
+          {collationLocales.map((locale) => (
+            <SelectItem key={locale.value} value={locale.value}>
+              {locale.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {toggles.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-2">
+          <Checkbox
+            id={`${id}-${key}`}
+            checked={current[key]}
+            onCheckedChange={(checked) => onCollationChange({ ...current, [key]: checked === true })}
+          />
+          <Label htmlFor={`${id}-${key}`} className="text-xs font-normal">
+            {label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useCallback, useRef } from "react"
+import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, type DragEndEvent } from "@dnd-kit/core"
+import { SortableContext, verticalListSortingStrategy, useSortable } from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
+import { getClientField, type ClientFieldId } from "@/lib/data"
+import { DEFAULT_COLUMN_ORDER, moveColumn, resolveColumnOrder } from "@/lib/columns"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Columns3Icon, GripVerticalIcon, RotateCcwIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface ColumnMenuProps {
+  columnOrder: ClientFieldId[]
+  hiddenColumns: ClientFieldId[]
+  onColumnOrderChange: (order: ClientFieldId[]) => void
+  onHiddenColumnsChange: (hidden: ClientFieldId[]) => void
+}
+
+interface ColumnItemProps {
+  field: ClientFieldId
+  visible: boolean
+  onToggle: (field: ClientFieldId) => void
+}
+
+/**
+ * A column in the menu: a checkbox item toggling its visibility, with a handle to drag it to another position.
+ *
+ * @param {ColumnItemProps} props - The component props.
+ * @param {ClientFieldId} props.field - The column's field.
+ * @param {boolean} props.visible - Whether the column is shown.
+ * @param {(field: ClientFieldId) => void} props.onToggle - Callback to show or hide the column.
+ */
+function ColumnItem({ field, visible, onToggle }: ColumnItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: field })
+  const label = getClientField(field)?.label ?? field
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    zIndex: isDragging ? 10 : 0,
+  }
+
+  return (
+    <DropdownMenuCheckboxItem
+      ref={setNodeRef}
+      style={style}
+      checked={visible}
+      // Keep the menu open so several columns can be changed at once
+      onSelect={(event) => event.preventDefault()}
+      onCheckedChange={() => onToggle(field)}
+      className={cn("pr-1", isDragging && "bg-accent ring-1 ring-primary")}
+    >
+      <span className="flex-1">{label}</span>
+      {/* Drag handle; its clicks must not toggle the column */}
+      <span
+        className="ml-2 flex h-6 w-6 cursor-grab items-center justify-center rounded text-muted-foreground hover:bg-muted active:cursor-grabbing"
+        {...attributes}
+        {...listeners}
+        onClick={(event) => event.stopPropagation()}
+        aria-label={`Drag to reorder the ${label} column`}
+      >
+        <GripVerticalIcon className="h-3 w-3" />
+      </span>
+    </DropdownMenuCheckboxItem>
+  )
+}
+
+/**
+ * "Columns" dropdown for choosing which table columns are shown and in which order.
+ * Columns are listed in display order; checking one shows it, and dragging its handle moves it.
+ *
+ * @param {ColumnMenuProps} props - The component props.
+ * @param {ClientFieldId[]} props.columnOrder - The current column order.
+ * @param {ClientFieldId[]} props.hiddenColumns - The currently hidden columns.
+ * @param {(order: ClientFieldId[]) => void} props.onColumnOrderChange - Callback receiving the new column order.
+ * @param {(hidden: ClientFieldId[]) => void} props.onHiddenColumnsChange - Callback receiving the new hidden columns.
+ */
+export function ColumnMenu({
+  columnOrder,
+  hiddenColumns,
+  onColumnOrderChange,
+  onHiddenColumnsChange,
+}: ColumnMenuProps) {
+  const order = resolveColumnOrder(columnOrder)
+  const visibleCount = order.filter((field) => !hiddenColumns.includes(field)).length
+  // Set while dragging: releasing the pointer over another item would otherwise toggle that column
+  const draggingRef = useRef(false)
+
+  const sensors = useSensors(
+    // A small distance lets clicks on the handle through without starting a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+  )
+
+  /**
+   * Shows or hides a column. At least one column always stays visible.
+   * @param {ClientFieldId} field - The column to toggle.
+   */
+  const handleToggle = useCallback(
+    (field: ClientFieldId) => {
+      if (draggingRef.current) return
+      if (hiddenColumns.includes(field)) {
+        onHiddenColumnsChange(hiddenColumns.filter((hidden) => hidden !== field))
+      } else if (visibleCount > 1) {
+        onHiddenColumnsChange([...hiddenColumns, field])
+      }
+    },
+    [hiddenColumns, visibleCount, onHiddenColumnsChange],
+  )
+
+  /**
+   * Moves the dragged column to its drop position.
+   * @param {DragEndEvent} event - The drag end event object from dnd-kit.
+   */
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event
+      // Cleared once the click that ends the drag has been dispatched
+      setTimeout(() => (draggingRef.current = false))
+      if (over && active.id !== over.id) {
+        onColumnOrderChange(moveColumn(order, active.id as ClientFieldId, over.id as ClientFieldId))
+      }
+    },
+    [order, onColumnOrderChange],
+  )
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="bg-white dark:bg-gray-900">
+          <Columns3Icon className="h-4 w-4" /> Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Columns</DropdownMenuLabel>
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragStart={() => (draggingRef.current = true)}
+          onDragEnd={handleDragEnd}
+          onDragCancel={() => (draggingRef.current = false)}
+        >
+          <SortableContext items={order} strategy={verticalListSortingStrategy}>
+            {order.map((field) => (
+              <ColumnItem key={field} field={field} visible={!hiddenColumns.includes(field)} onToggle={handleToggle} />
+            ))}
+          </SortableContext>
+        </DndContext>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={() => {
+            onColumnOrderChange(DEFAULT_COLUMN_ORDER)
+            onHiddenColumnsChange([])
+          }}
+        >
+          <RotateCcwIcon /> Reset columns
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
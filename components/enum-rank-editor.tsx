@@ -0,0 +1,145 @@
+"use client"
+
+import { useCallback } from "react"
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core"
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
+import { formatEnumValue } from "@/lib/data"
+import { Button } from "@/components/ui/button"
+import { GripVerticalIcon, RotateCcwIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface EnumRankEditorProps {
+  rank: string[]
+  onRankChange: (rank: string[]) => void
+  onReset: () => void
+}
+
+interface RankItemProps {
+  value: string
+  position: number
+}
+
+/**
+ * A single draggable enum value within the rank list.
+ *
+ * @param {RankItemProps} props - The component props.
+ * @param {string} props.value - The enum value.
+ * @param {number} props.position - The 1-based position of the value in the rank.
+ */
+function RankItem({ value, position }: RankItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: value })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    zIndex: isDragging ? 10 : 0,
+  }
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "flex items-center gap-1 rounded border bg-white dark:bg-gray-900 text-xs",
+        isDragging && "ring-1 ring-primary",
+      )}
+    >
+      {/* Drag handle button */}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 cursor-grab active:cursor-grabbing text-muted-foreground"
+        {...attributes}
+        {...listeners}
+        aria-label={`Drag to reorder ${value}`}
+      >
+        <GripVerticalIcon className="h-3 w-3" />
+      </Button>
+      <span className="w-4 text-muted-foreground tabular-nums">{position}.</span>
+      <span className="font-medium text-gray-800 dark:text-gray-200">{formatEnumValue(value)}</span>
+    </li>
+  )
+}
+
+/**
+ * Lets users define the order of an enum field's values by dragging them.
+ * The resulting rank is used instead of the default order when sorting by that field.
+ *
+ * @param {EnumRankEditorProps} props - The component props.
+ * @param {string[]} props.rank - The full, ordered list of the field's values.
+ * @param {(rank: string[]) => void} props.onRankChange - Callback receiving the reordered rank.
+ * @param {() => void} props.onReset - Callback to restore the field's default order.
+ */
+export function EnumRankEditor({ rank, onRankChange, onReset }: EnumRankEditorProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  )
+
+  /**
+   * Moves the dragged value to its drop position.
+   * @param {DragEndEvent} event - The drag end event object from dnd-kit.
+   */
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event
+
+      if (active.id !== over?.id) {
+        const oldIndex = rank.indexOf(String(active.id))
+        const newIndex = rank.indexOf(String(over?.id))
+
+        if (oldIndex !== -1 && newIndex !== -1) {
+          const newRank = [...rank]
+          const [movedValue] = newRank.splice(oldIndex, 1)
+          newRank.splice(newIndex, 0, movedValue)
+          onRankChange(newRank)
+        }
+      }
+    },
+    [rank, onRankChange],
+  )
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">Drag to set the sort order</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onReset}
+          className="h-6 w-6 text-muted-foreground"
+          aria-label="Reset to default order"
+          title="Reset to default order"
+        >
+          <RotateCcwIcon className="h-3 w-3" />
+        </Button>
+      </div>
+      {/* A nested DndContext keeps these drags separate from reordering the criteria themselves */}
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={rank} strategy={verticalListSortingStrategy}>
+          <ol className="space-y-1">
+            {rank.map((value, index) => (
+              <RankItem key={value} value={value} position={index + 1} />
+            ))}
+          </ol>
+        </SortableContext>
+      </DndContext>
+    </div>
+  )
+}
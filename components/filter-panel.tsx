@@ -0,0 +1,382 @@
+"use client"
+
+import { useCallback } from "react"
+import { format, parseISO } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { type ClientFieldId, clientFields, formatEnumValue, getClientField } from "@/lib/data"
+import {
+  createFilterCondition,
+  createFilterGroup,
+  filterOperators,
+  type FilterCombinator,
+  type FilterCondition,
+  type FilterGroup,
+  type FilterOperator,
+  type FilterState,
+} from "@/lib/filter-utils"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarIcon, PlusIcon, XIcon } from "lucide-react"
+
+interface FilterPanelProps {
+  filters: FilterState
+  onFiltersChange: (filters: FilterState) => void
+}
+
+interface FilterGroupCardProps {
+  group: FilterGroup
+  onChange: (group: FilterGroup) => void
+  onRemove: (id: string) => void
+}
+
+interface FilterConditionRowProps {
+  condition: FilterCondition
+  onChange: (condition: FilterCondition) => void
+  onRemove: (id: string) => void
+}
+
+// Only fields whose type has filter operators can be filtered on
+const filterableFields = clientFields.filter((field) => filterOperators[field.type])
+
+// Filter dates are stored as "yyyy-MM-dd" strings so the state stays serializable
+const toFilterDate = (date: Date | undefined): string => (date ? format(date, "yyyy-MM-dd") : "")
+const fromFilterDate = (value: string | undefined): Date | undefined => (value ? parseISO(value) : undefined)
+
+/**
+ * A small button that switches a combinator between "and" and "or".
+ *
+ * @param {Object} props - The component props.
+ * @param {FilterCombinator} props.combinator - The current combinator.
+ * @param {(combinator: FilterCombinator) => void} props.onChange - Callback receiving the switched combinator.
+ */
+function CombinatorToggle({
+  combinator,
+  onChange,
+}: {
+  combinator: FilterCombinator
+  onChange: (combinator: FilterCombinator) => void
+}) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => onChange(combinator === "and" ? "or" : "and")}
+      className="h-6 px-2 text-xs font-semibold uppercase"
+      aria-label={`Combine with ${combinator === "and" ? "OR" : "AND"} instead`}
+    >
+      {combinator}
+    </Button>
+  )
+}
+
+/**
+ * Edits the value of a condition, with an input suited to its operator:
+ * a text box for string operators, a calendar for date operators, and checkboxes for "in".
+ *
+ * @param {Object} props - The component props.
+ * @param {FilterCondition} props.condition - The condition being edited.
+ * @param {(condition: FilterCondition) => void} props.onChange - Callback receiving the updated condition.
+ */
+function FilterValueInput({
+  condition,
+  onChange,
+}: {
+  condition: FilterCondition
+  onChange: (condition: FilterCondition) => void
+}) {
+  const field = getClientField(condition.field)
+
+  switch (condition.operator) {
+    case "in":
+      return (
+        <div className="grid grid-cols-2 gap-1">
+          {field?.options?.map((option) => {
+            const inputId = `${condition.id}-${option}`
+            const checked = condition.values?.includes(option) ?? false
+            return (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={inputId}
+                  checked={checked}
+                  onCheckedChange={(value) =>
+                    onChange({
+                      ...condition,
+                      values:
+                        value === true
+                          ? [...(condition.values ?? []), option]
+                          : (condition.values ?? []).filter((v) => v !== option),
+                    })
+                  }
+                />
+                <Label htmlFor={inputId} className="text-xs font-normal">
+                  {formatEnumValue(option)}
+                </Label>
+              </div>
+            )
+          })}
+        </div>
+      )
+    case "before":
+    case "after":
+    case "between": {
+      const isRange = condition.operator === "between"
+      const from = fromFilterDate(condition.value)
+      const to = fromFilterDate(condition.valueTo)
+      const label = isRange
+        ? from && to
+          ? `${format(from, "MMM dd, yyyy")} – ${format(to, "MMM dd, yyyy")}`
+          : "Pick a date range"
+        : from
+          ? format(from, "MMM dd, yyyy")
+          : "Pick a date"
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full justify-start font-normal">
+              <CalendarIcon className="h-4 w-4" />
+              <span className="truncate">{label}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            {isRange ? (
+              <Calendar
+                mode="range"
+                selected={{ from, to }}
+                onSelect={(range: DateRange | undefined) =>
+                  onChange({ ...condition, value: toFilterDate(range?.from), valueTo: toFilterDate(range?.to) })
+                }
+                initialFocus
+              />
+            ) : (
+              <Calendar
+                mode="single"
+                selected={from}
+                onSelect={(date: Date | undefined) => onChange({ ...condition, value: toFilterDate(date) })}
+                initialFocus
+              />
+            )}
+          </PopoverContent>
+        </Popover>
+      )
+    }
+    default:
+      return (
+        <Input
+          value={condition.value}
+          onChange={(event) => onChange({ ...condition, value: event.target.value })}
+          placeholder="Value"
+          className="h-8 text-sm"
+          aria-label={`Filter value for ${field?.label ?? condition.field}`}
+        />
+      )
+  }
+}
+
+/**
+ * A single filter condition: field, operator and value, plus a remove button.
+ *
+ * @param {FilterConditionRowProps} props - The component props.
+ * @param {FilterCondition} props.condition - The condition being edited.
+ * @param {(condition: FilterCondition) => void} props.onChange - Callback receiving the updated condition.
+ * @param {(id: string) => void} props.onRemove - Callback to remove the condition.
+ */
+function FilterConditionRow({ condition, onChange, onRemove }: FilterConditionRowProps) {
+  const field = getClientField(condition.field)
+  const operators = (field && filterOperators[field.type]) ?? []
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="flex items-center gap-2">
+        {/* Changing the field resets the operator and value, since they depend on the field type */}
+        <Select
+          value={condition.field}
+          onValueChange={(value: ClientFieldId) => onChange({ ...createFilterCondition(value), id: condition.id })}
+        >
+          <SelectTrigger className="h-8 text-sm" aria-label="Filter field">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {filterableFields.map((f) => (
+              <SelectItem key={f.id} value={f.id}>
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={condition.operator}
+          onValueChange={(value: FilterOperator) => onChange({ ...condition, operator: value })}
+        >
+          <SelectTrigger className="h-8 text-sm" aria-label="Filter operator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((operator) => (
+              <SelectItem key={operator.id} value={operator.id}>
+                {operator.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onRemove(condition.id)}
+          className="h-8 w-8 shrink-0 text-muted-foreground hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900 dark:hover:text-red-300"
+          aria-label={`Remove filter on ${field?.label ?? condition.field}`}
+        >
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </div>
+      <FilterValueInput condition={condition} onChange={onChange} />
+    </div>
+  )
+}
+
+/**
+ * A group of conditions combined with AND or OR.
+ *
+ * @param {FilterGroupCardProps} props - The component props.
+ * @param {FilterGroup} props.group - The group being edited.
+ * @param {(group: FilterGroup) => void} props.onChange - Callback receiving the updated group.
+ * @param {(id: string) => void} props.onRemove - Callback to remove the group.
+ */
+function FilterGroupCard({ group, onChange, onRemove }: FilterGroupCardProps) {
+  const handleConditionChange = (condition: FilterCondition) => {
+    onChange({ ...group, conditions: group.conditions.map((c) => (c.id === condition.id ? condition : c)) })
+  }
+
+  const handleConditionRemove = (id: string) => {
+    onChange({ ...group, conditions: group.conditions.filter((c) => c.id !== id) })
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs text-muted-foreground">
+          Match
+          <CombinatorToggle
+            combinator={group.combinator}
+            onChange={(combinator) => onChange({ ...group, combinator })}
+          />
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onRemove(group.id)}
+          className="h-6 w-6 text-muted-foreground hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900 dark:hover:text-red-300"
+          aria-label="Remove filter group"
+        >
+          <XIcon className="h-3 w-3" />
+        </Button>
+      </div>
+      {group.conditions.map((condition) => (
+        <FilterConditionRow
+          key={condition.id}
+          condition={condition}
+          onChange={handleConditionChange}
+          onRemove={handleConditionRemove}
+        />
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() =>
+          onChange({ ...group, conditions: [...group.conditions, createFilterCondition(filterableFields[0].id)] })
+        }
+        className="w-full text-muted-foreground"
+      >
+        <PlusIcon className="h-4 w-4" /> Add condition
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * The Filter Panel component.
+ * Lets users build typed filter conditions per field, organized in groups combined with AND/OR.
+ *
+ * @param {FilterPanelProps} props - The component props.
+ * @param {FilterState} props.filters - The current filter state.
+ * @param {(filters: FilterState) => void} props.onFiltersChange - Callback to update the filters in the parent.
+ */
+export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
+  /**
+   * Replaces a group with its updated version.
+   * @param {FilterGroup} group - The updated group.
+   */
+  const handleGroupChange = useCallback(
+    (group: FilterGroup) => {
+      onFiltersChange({ ...filters, groups: filters.groups.map((g) => (g.id === group.id ? group : g)) })
+    },
+    [filters, onFiltersChange],
+  )
+
+  /**
+   * Removes a group by its unique ID.
+   * @param {string} id - The unique ID of the group to remove.
+   */
+  const handleGroupRemove = useCallback(
+    (id: string) => {
+      onFiltersChange({ ...filters, groups: filters.groups.filter((g) => g.id !== id) })
+    },
+    [filters, onFiltersChange],
+  )
+
+  /**
+   * Adds a new group containing a single empty condition.
+   */
+  const handleAddGroup = useCallback(() => {
+    const group = { ...createFilterGroup(), conditions: [createFilterCondition(filterableFields[0].id)] }
+    onFiltersChange({ ...filters, groups: [...filters.groups, group] })
+  }, [filters, onFiltersChange])
+
+  return (
+    <Card className="p-4 space-y-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Filter</h3>
+        {filters.groups.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onFiltersChange({ ...filters, groups: [] })}
+            className="text-muted-foreground"
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {filters.groups.length > 0 ? (
+        <div className="space-y-2">
+          {filters.groups.map((group, index) => (
+            <div key={group.id} className="space-y-2">
+              {/* The top-level combinator is shown between groups */}
+              {index > 0 && (
+                <div className="flex justify-center">
+                  <CombinatorToggle
+                    combinator={filters.combinator}
+                    onChange={(combinator) => onFiltersChange({ ...filters, combinator })}
+                  />
+                </div>
+              )}
+              <FilterGroupCard group={group} onChange={handleGroupChange} onRemove={handleGroupRemove} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground italic">No filters yet. Add a group to narrow down the clients.</p>
+      )}
+
+      <Button onClick={handleAddGroup} className="w-full bg-primary text-primary-foreground hover:bg-primary/90">
+        <PlusIcon className="h-4 w-4 mr-2" /> Add Filter Group
+      </Button>
+    </Card>
+  )
+}
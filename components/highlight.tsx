@@ -0,0 +1,44 @@
+"use client"
+
+import { Fragment, useMemo } from "react"
+import { findMatches } from "@/lib/search-utils"
+
+interface HighlightProps {
+  text: string
+  query: string
+}
+
+/**
+ * Renders text with the parts matching the search query wrapped in `<mark>`.
+ * Matching ignores case and accents, like the quick search itself.
+ *
+ * @param {HighlightProps} props - The component props.
+ * @param {string} props.text - The text to render.
+ * @param {string} props.query - The search query to highlight.
+ */
+export function Highlight({ text, query }: HighlightProps) {
+  const ranges = useMemo(() => findMatches(text, query), [text, query])
+
+  if (ranges.length === 0) {
+    return <>{text}</>
+  }
+
+  let cursor = 0
+  return (
+    <>
+      {ranges.map(([start, end]) => {
+        const before = text.slice(cursor, start)
+        cursor = end
+        return (
+          <Fragment key={start}>
+            {before}
+            <mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700">
+              {text.slice(start, end)}
+            </mark>
+          </Fragment>
+        )
+      })}
+      {text.slice(cursor)}
+    </>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { SearchIcon, XIcon } from "lucide-react"
+
+interface QuickSearchProps {
+  value: string
+  onValueChange: (value: string) => void
+  resultCount: number
+}
+
+/**
+ * A search box for quickly finding clients by name, email or status.
+ *
+ * @param {QuickSearchProps} props - The component props.
+ * @param {string} props.value - The current search text.
+ * @param {(value: string) => void} props.onValueChange - Callback receiving the new search text.
+ * @param {number} props.resultCount - Number of clients currently shown, announced to screen readers.
+ */
+export function QuickSearch({ value, onValueChange, resultCount }: QuickSearchProps) {
+  return (
+    <div className="relative">
+      <SearchIcon className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={value}
+        onChange={(event) => onValueChange(event.target.value)}
+        placeholder="Search by name, email or status"
+        className="pl-9 pr-9 bg-white dark:bg-gray-900"
+        aria-label="Search clients"
+      />
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onValueChange("")}
+          className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2 text-muted-foreground"
+          aria-label="Clear search"
+        >
+          <XIcon className="h-4 w-4" />
+        </Button>
+      )}
+      <span className="sr-only" aria-live="polite">
+        {resultCount} {resultCount === 1 ? "client" : "clients"} found
+      </span>
+    </div>
+  )
+}
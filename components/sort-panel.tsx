@@ -17,23 +17,44 @@ import {
   useSortable,
 } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
-import { type ClientFieldId, clientFields } from "@/lib/data"
-import type { SortCriterion } from "@/lib/sort-utils"
+import { type ClientFieldId, clientFields, getClientField } from "@/lib/data"
+import type { CollationOptions } from "@/lib/collation"
+import { createSortCriterion, resolveEnumRank, resolveNullPlacement, type SortCriterion } from "@/lib/sort-utils"
+import { EnumRankEditor } from "@/components/enum-rank-editor"
+import { CollationEditor } from "@/components/collation-editor"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { PlusIcon, ArrowUpIcon, ArrowDownIcon, XIcon, GripVerticalIcon } from "lucide-react"
+import {
+  PlusIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  XIcon,
+  GripVerticalIcon,
+  ArrowUpToLineIcon,
+  ArrowDownToLineIcon,
+  SlidersHorizontalIcon,
+  Undo2Icon,
+  Redo2Icon,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 
 interface SortPanelProps {
   sortCriteria: SortCriterion[]
   onSortCriteriaChange: (criteria: SortCriterion[]) => void
+  onUndo?: () => void
+  onRedo?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
 }
 
 interface SortableItemProps {
   criterion: SortCriterion
   onRemove: (id: string) => void
   onToggleDirection: (id: string) => void
+  onToggleNulls: (id: string) => void
+  onRankChange: (id: string, rank: string[] | undefined) => void
+  onCollationChange: (id: string, collation: CollationOptions) => void
 }
 
 /**
@@ -44,8 +65,22 @@ interface SortableItemProps {
  * @param {SortCriterion} props.criterion - The sort criterion object.
  * @param {(id: string) => void} props.onRemove - Callback to remove the criterion.
  * @param {(id: string) => void} props.onToggleDirection - Callback to toggle the sort direction.
+ * @param {(id: string) => void} props.onToggleNulls - Callback to toggle whether empty values go first or last.
+ * @param {(id: string, rank: string[] | undefined) => void} props.onRankChange - Callback to set (or clear) the custom
+ *   value order of an enum criterion.
+ * @param {(id: string, collation: CollationOptions) => void} props.onCollationChange - Callback to update the collation
+ *   settings of a string criterion.
  */
-function SortableItem({ criterion, onRemove, onToggleDirection }: SortableItemProps) {
+function SortableItem({
+  criterion,
+  onRemove,
+  onToggleDirection,
+  onToggleNulls,
+  onRankChange,
+  onCollationChange,
+}: SortableItemProps) {
+  // Whether the type-specific settings (enum value order, string collation) are expanded
+  const [showSettings, setShowSettings] = useState(false)
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: criterion.id, // Unique ID for dnd-kit to track this item
   })
@@ -63,64 +98,135 @@ function SortableItem({ criterion, onRemove, onToggleDirection }: SortableItemPr
 
   // Find the human-readable label for the field ID
   const fieldLabel = clientFields.find((f) => f.id === criterion.field)?.label || criterion.field
+  // Effective placement of empty values, falling back to the field type's default
+  const nulls = resolveNullPlacement(criterion)
+  // Full value order for enum fields; empty for every other field type
+  const rank = resolveEnumRank(criterion)
+  const fieldType = getClientField(criterion.field)?.type
+  // Only enum and string fields have settings beyond direction and empty-value placement
+  const hasSettings = fieldType === "enum" || fieldType === "string"
 
   return (
     <Card
       ref={setNodeRef} // Ref for dnd-kit to attach to the DOM node
       style={style}
       className={cn(
-        "flex items-center justify-between p-2 pr-4 border rounded-md transition-all duration-200 ease-in-out",
+        "flex flex-col gap-2 p-2 pr-4 border rounded-md transition-all duration-200 ease-in-out",
         isDragging && "ring-2 ring-primary ring-offset-2 bg-white dark:bg-gray-800", // Visual feedback when dragging
       )}
     >
-      <CardContent className="flex items-center p-0 gap-2">
-        {/* Drag handle button */}
+      <div className="flex items-center justify-between">
+        <CardContent className="flex items-center p-0 gap-2">
+          {/* Drag handle button */}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="cursor-grab active:cursor-grabbing text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
+            {...attributes} // Attributes for accessibility and drag behavior
+            {...listeners} // Event listeners for drag behavior
+            aria-label="Drag to reorder sort criterion"
+          >
+            <GripVerticalIcon className="h-4 w-4" />
+          </Button>
+          {/* Display the field label */}
+          <span className="font-medium text-sm text-gray-800 dark:text-gray-200">{fieldLabel}</span>
+          {/* Button to toggle sort direction */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggleDirection(criterion.id)}
+            className="ml-2 text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label={`Toggle sort direction for ${fieldLabel}`}
+          >
+            {criterion.direction === "asc" ? (
+              <ArrowUpIcon className="h-4 w-4" />
+            ) : (
+              <ArrowDownIcon className="h-4 w-4" />
+            )}
+          </Button>
+          {/* Button to toggle whether empty values are placed first or last */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggleNulls(criterion.id)}
+            className="text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label={`Empty ${fieldLabel} values ${nulls}. Toggle placement`}
+            title={nulls === "first" ? "Empty values first" : "Empty values last"}
+          >
+            {nulls === "first" ? (
+              <ArrowUpToLineIcon className="h-4 w-4" />
+            ) : (
+              <ArrowDownToLineIcon className="h-4 w-4" />
+            )}
+          </Button>
+          {/* Button to show the value order (enum) or collation (string) settings */}
+          {hasSettings && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSettings((show) => !show)}
+              className={cn(
+                "text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700",
+                (criterion.rank || criterion.collation) && "text-primary",
+              )}
+              aria-label={`Edit ${fieldType === "enum" ? "value order" : "collation"} for ${fieldLabel}`}
+              aria-expanded={showSettings}
+              title={fieldType === "enum" ? "Custom value order" : "Collation"}
+            >
+              <SlidersHorizontalIcon className="h-4 w-4" />
+            </Button>
+          )}
+        </CardContent>
+        {/* Button to remove the sort criterion */}
         <Button
           variant="ghost"
           size="icon"
-          className="cursor-grab active:cursor-grabbing text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
-          {...attributes} // Attributes for accessibility and drag behavior
-          {...listeners} // Event listeners for drag behavior
-          aria-label="Drag to reorder sort criterion"
-        >
-          <GripVerticalIcon className="h-4 w-4" />
-        </Button>
-        {/* Display the field label */}
-        <span className="font-medium text-sm text-gray-800 dark:text-gray-200">{fieldLabel}</span>
-        {/* Button to toggle sort direction */}
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onToggleDirection(criterion.id)}
-          className="ml-2 text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
-          aria-label={`Toggle sort direction for ${fieldLabel}`}
+          onClick={() => onRemove(criterion.id)}
+          className="text-muted-foreground hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900 dark:hover:text-red-300"
+          aria-label={`Remove sort criterion for ${fieldLabel}`}
         >
-          {criterion.direction === "asc" ? <ArrowUpIcon className="h-4 w-4" /> : <ArrowDownIcon className="h-4 w-4" />}
+          <XIcon className="h-4 w-4" />
         </Button>
-      </CardContent>
-      {/* Button to remove the sort criterion */}
-      <Button
-        variant="ghost"
-        size="icon"
-        onClick={() => onRemove(criterion.id)}
-        className="text-muted-foreground hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900 dark:hover:text-red-300"
-        aria-label={`Remove sort criterion for ${fieldLabel}`}
-      >
-        <XIcon className="h-4 w-4" />
-      </Button>
+      </div>
+      {showSettings && fieldType === "enum" && (
+        <EnumRankEditor
+          rank={rank}
+          onRankChange={(newRank) => onRankChange(criterion.id, newRank)}
+          onReset={() => onRankChange(criterion.id, undefined)}
+        />
+      )}
+      {showSettings && fieldType === "string" && (
+        <CollationEditor
+          id={criterion.id}
+          collation={criterion.collation}
+          onCollationChange={(collation) => onCollationChange(criterion.id, collation)}
+        />
+      )}
     </Card>
   )
 }
 
 /**
  * The main Sort Panel component.
- * Allows users to add, remove, reorder (drag-and-drop), and toggle direction of sort criteria.
+ * Allows users to add, remove, reorder (drag-and-drop), and toggle direction and empty-value placement of sort criteria,
+ * to define a custom value order for enum fields, and to choose the collation of string fields.
  *
  * @param {SortPanelProps} props - The component props.
  * @param {SortCriterion[]} props.sortCriteria - The current array of sort criteria.
  * @param {(criteria: SortCriterion[]) => void} props.onSortCriteriaChange - Callback to update the sort criteria in the parent.
+ * @param {() => void} [props.onUndo] - Callback to undo the last change. The undo/redo buttons are shown when provided.
+ * @param {() => void} [props.onRedo] - Callback to redo the last undone change.
+ * @param {boolean} [props.canUndo] - Whether there is a change to undo.
+ * @param {boolean} [props.canRedo] - Whether there is a change to redo.
  */
-export function SortPanel({ sortCriteria, onSortCriteriaChange }: SortPanelProps) {
+export function SortPanel({
+  sortCriteria,
+  onSortCriteriaChange,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+}: SortPanelProps) {
   const [selectedField, setSelectedField] = useState<ClientFieldId | "">("")
 
   // Configure dnd-kit sensors for pointer (mouse/touch) and keyboard interactions
@@ -165,11 +271,7 @@ export function SortPanel({ sortCriteria, onSortCriteriaChange }: SortPanelProps
   const handleAddField = useCallback(() => {
     // Ensure a field is selected and it's not already in the criteria list
     if (selectedField && !sortCriteria.some((c) => c.field === selectedField)) {
-      const newCriterion: SortCriterion = {
-        id: `sort-${Date.now()}-${selectedField}`, // Unique ID for the new criterion
-        field: selectedField,
-        direction: "asc", // Default to ascending
-      }
+      const newCriterion = createSortCriterion(selectedField) // Defaults to ascending
       onSortCriteriaChange([...sortCriteria, newCriterion]) // Add to existing criteria
       setSelectedField("") // Reset the select input
     }
@@ -199,12 +301,80 @@ export function SortPanel({ sortCriteria, onSortCriteriaChange }: SortPanelProps
     [sortCriteria, onSortCriteriaChange],
   )
 
+  /**
+   * Toggles whether empty values are placed first or last for a specific criterion.
+   * @param {string} id - The unique ID of the criterion to toggle.
+   */
+  const handleToggleNulls = useCallback(
+    (id: string) => {
+      onSortCriteriaChange(
+        sortCriteria.map((c) =>
+          c.id === id ? { ...c, nulls: resolveNullPlacement(c) === "first" ? "last" : "first" } : c,
+        ),
+      )
+    },
+    [sortCriteria, onSortCriteriaChange],
+  )
+
+  /**
+   * Sets the custom value order of an enum criterion, or restores the default order when `rank` is undefined.
+   * @param {string} id - The unique ID of the criterion to update.
+   * @param {string[] | undefined} rank - The new value order.
+   */
+  const handleRankChange = useCallback(
+    (id: string, rank: string[] | undefined) => {
+      onSortCriteriaChange(sortCriteria.map((c) => (c.id === id ? { ...c, rank } : c)))
+    },
+    [sortCriteria, onSortCriteriaChange],
+  )
+
+  /**
+   * Updates the collation settings of a string criterion.
+   * @param {string} id - The unique ID of the criterion to update.
+   * @param {CollationOptions} collation - The new collation settings.
+   */
+  const handleCollationChange = useCallback(
+    (id: string, collation: CollationOptions) => {
+      onSortCriteriaChange(sortCriteria.map((c) => (c.id === id ? { ...c, collation } : c)))
+    },
+    [sortCriteria, onSortCriteriaChange],
+  )
+
   // Filter out fields that are already being used as sort criteria
   const availableFields = clientFields.filter((field) => !sortCriteria.some((c) => c.field === field.id))
 
   return (
     <Card className="p-4 space-y-4 shadow-sm">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Sort By</h3>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Sort By</h3>
+        {/* Undo/redo buttons for sort edits */}
+        {onUndo && onRedo && (
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="h-8 w-8 text-muted-foreground"
+              aria-label="Undo sort change"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2Icon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="h-8 w-8 text-muted-foreground"
+              aria-label="Redo sort change"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2Icon className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
       <div className="flex items-center gap-2">
         {/* Select dropdown for adding new sort fields */}
         <Select onValueChange={(value: ClientFieldId) => setSelectedField(value)} value={selectedField}>
@@ -248,6 +418,9 @@ export function SortPanel({ sortCriteria, onSortCriteriaChange }: SortPanelProps
                   criterion={criterion}
                   onRemove={handleRemoveCriterion}
                   onToggleDirection={handleToggleDirection}
+                  onToggleNulls={handleToggleNulls}
+                  onRankChange={handleRankChange}
+                  onCollationChange={handleCollationChange}
                 />
               ))}
             </div>
@@ -0,0 +1,27 @@
+import { formatEnumValue, type Client } from "@/lib/data"
+import { Highlight } from "@/components/highlight"
+
+/**
+ * Renders a client's status as a colored badge.
+ *
+ * @param {Object} props - The component props.
+ * @param {Client["status"]} props.status - The status to display.
+ * @param {string} [props.searchQuery] - Quick search text to highlight in the label.
+ */
+export function StatusBadge({ status, searchQuery = "" }: { status: Client["status"]; searchQuery?: string }) {
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-semibold transition-colors duration-200 ${
+        status === "active"
+          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+          : status === "inactive"
+            ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+            : status === "pending"
+              ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+              : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
+      }`}
+    >
+      <Highlight text={formatEnumValue(status)} query={searchQuery} />
+    </span>
+  )
+}
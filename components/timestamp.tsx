@@ -0,0 +1,17 @@
+import { format, formatDistanceToNow } from "date-fns"
+
+/**
+ * Renders a date both relative to now ("3 days ago") and in full, the full form also in its tooltip.
+ *
+ * @param {Object} props - The component props.
+ * @param {Date} props.date - The date to display.
+ */
+export function Timestamp({ date }: { date: Date }) {
+  const absolute = format(date, "MMM dd, yyyy HH:mm")
+  return (
+    <time dateTime={date.toISOString()} title={absolute} className="flex flex-col">
+      <span>{formatDistanceToNow(date, { addSuffix: true })}</span>
+      <span className="text-xs text-muted-foreground">{absolute}</span>
+    </time>
+  )
+}
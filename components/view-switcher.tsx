@@ -0,0 +1,238 @@
+"use client"
+
+import { useState } from "react"
+import {
+  createView,
+  deleteView,
+  duplicateView,
+  isSameViewState,
+  renameView,
+  setDefaultView,
+  updateView,
+  type SavedView,
+  type ViewsStore,
+  type ViewState,
+} from "@/lib/views"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  ChevronDownIcon,
+  CopyIcon,
+  PencilIcon,
+  PlusIcon,
+  SaveIcon,
+  StarIcon,
+  StarOffIcon,
+  TrashIcon,
+} from "lucide-react"
+
+interface ViewSwitcherProps {
+  store: ViewsStore
+  currentState: ViewState
+  onStoreChange: (store: ViewsStore) => void
+  onApplyView: (view: SavedView) => void
+}
+
+// Which name dialog is open: saving the current state as a new view, or renaming the active one
+type NameDialogMode = "create" | "rename" | null
+
+/**
+ * Dropdown for switching between saved views and managing them:
+ * save the current table state as a new view, save changes to the active view, rename, duplicate,
+ * delete, and choose the default view applied when the dashboard loads.
+ *
+ * @param {ViewSwitcherProps} props - The component props.
+ * @param {ViewsStore} props.store - The saved views.
+ * @param {ViewState} props.currentState - The table state currently displayed.
+ * @param {(store: ViewsStore) => void} props.onStoreChange - Callback receiving the updated views.
+ * @param {(view: SavedView) => void} props.onApplyView - Callback to display a view's state in the table.
+ */
+export function ViewSwitcher({ store, currentState, onStoreChange, onApplyView }: ViewSwitcherProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialogMode>(null)
+  const [name, setName] = useState("")
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const activeView = store.views.find((view) => view.id === store.activeViewId)
+  // The active view has unsaved changes when the table no longer shows its captured state
+  const isModified = activeView !== undefined && !isSameViewState(activeView.state, currentState)
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    setName(mode === "rename" && activeView ? activeView.name : "")
+    setNameDialog(mode)
+  }
+
+  const handleSelectView = (id: string) => {
+    const view = store.views.find((v) => v.id === id)
+    if (view) {
+      onStoreChange({ ...store, activeViewId: view.id })
+      onApplyView(view)
+    }
+  }
+
+  const handleNameSubmit = () => {
+    if (!name.trim()) return
+    if (nameDialog === "create") {
+      onStoreChange(createView(store, name, currentState))
+    } else if (nameDialog === "rename" && activeView) {
+      onStoreChange(renameView(store, activeView.id, name))
+    }
+    setNameDialog(null)
+  }
+
+  const handleDuplicate = () => {
+    if (activeView) onStoreChange(duplicateView(store, activeView.id))
+  }
+
+  const handleDelete = () => {
+    if (activeView) onStoreChange(deleteView(store, activeView.id))
+    setConfirmDelete(false)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="min-w-[200px] justify-between bg-white dark:bg-gray-900">
+            <span className="truncate">
+              {activeView ? activeView.name : "Unsaved view"}
+              {isModified && <span className="text-muted-foreground"> (modified)</span>}
+            </span>
+            <ChevronDownIcon className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Views</DropdownMenuLabel>
+          {store.views.length > 0 ? (
+            <DropdownMenuRadioGroup value={store.activeViewId ?? ""} onValueChange={handleSelectView}>
+              {store.views.map((view) => (
+                <DropdownMenuRadioItem key={view.id} value={view.id} className="justify-between">
+                  <span className="truncate">{view.name}</span>
+                  {view.id === store.defaultViewId && (
+                    <StarIcon className="h-3 w-3 fill-current text-yellow-500" aria-label="Default view" />
+                  )}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          ) : (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground italic">No saved views yet.</p>
+          )}
+          <DropdownMenuSeparator />
+          {isModified && (
+            <DropdownMenuItem onSelect={() => onStoreChange(updateView(store, activeView.id, currentState))}>
+              <SaveIcon /> Save changes
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => openNameDialog("create")}>
+            <PlusIcon /> Save as new view…
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem onSelect={() => openNameDialog("rename")}>
+                <PencilIcon /> Rename…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleDuplicate}>
+                <CopyIcon /> Duplicate
+              </DropdownMenuItem>
+              {activeView.id === store.defaultViewId ? (
+                <DropdownMenuItem onSelect={() => onStoreChange(setDefaultView(store, null))}>
+                  <StarOffIcon /> Unset default
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onSelect={() => onStoreChange(setDefaultView(store, activeView.id))}>
+                  <StarIcon /> Set as default
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onSelect={() => setConfirmDelete(true)}
+                className="text-red-600 focus:text-red-600 dark:text-red-400"
+              >
+                <TrashIcon /> Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Dialog for naming a new view or renaming the active one */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              handleNameSubmit()
+            }}
+            className="space-y-4"
+          >
+            <DialogHeader>
+              <DialogTitle>{nameDialog === "rename" ? "Rename view" : "Save view"}</DialogTitle>
+              <DialogDescription>
+                {nameDialog === "rename"
+                  ? "Choose a new name for this view."
+                  : "Save the current sort, filters, columns and page size as a named view."}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Stale pending"
+              aria-label="View name"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                {nameDialog === "rename" ? "Rename" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirmation before deleting the active view */}
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete view?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{activeView?.name}&quot; will be deleted. The table keeps its current sort and filters.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+
+/**
+ * Returns `value` once it has stopped changing for `delay` milliseconds.
+ * Useful for expensive work driven by fast-changing input, such as search as you type.
+ *
+ * @param {T} value - The value to debounce.
+ * @param {number} delay - How long the value must stay unchanged, in milliseconds.
+ * @returns {T} The debounced value.
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debouncedValue
+}
@@ -0,0 +1,65 @@
+import * as React from "react"
+import type { Client } from "@/lib/data"
+import { getSelectAllState, toggleRowSelection, type SelectAllState } from "@/lib/selection"
+
+/**
+ * Tracks which clients are selected, by ID, so the selection survives re-sorting, paging and filtering.
+ * Only the given clients (the current filtered, searched and sorted results) can be selected all at once,
+ * are counted as selected, and are covered by range selections, which follow their order.
+ *
+ * @param {Client[]} clients - The selectable clients, in display order.
+ * @returns {{ selectedIds: ReadonlySet<string>, selectedClients: Client[], selectAllState: SelectAllState,
+ *   toggle: (id: string, range: boolean) => void, toggleAll: () => void, clear: () => void }}
+ */
+export function useRowSelection(clients: Client[]) {
+  const [selectedIds, setSelectedIds] = React.useState<ReadonlySet<string>>(() => new Set())
+  // The last client toggled on its own, where range selections start
+  const anchorRef = React.useRef<string | null>(null)
+
+  const orderedIds = React.useMemo(() => clients.map((client) => client.id), [clients])
+  const selectedClients = React.useMemo(
+    () => clients.filter((client) => selectedIds.has(client.id)),
+    [clients, selectedIds],
+  )
+  const selectAllState: SelectAllState = getSelectAllState(selectedIds, orderedIds)
+
+  /**
+   * Selects or deselects a client, or the range from the last client toggled to this one.
+   * @param {string} id - The client's ID.
+   * @param {boolean} range - Whether to toggle the whole range (e.g. on shift-click).
+   */
+  const toggle = React.useCallback(
+    (id: string, range: boolean) => {
+      setSelectedIds((selected) => toggleRowSelection(selected, orderedIds, id, range ? anchorRef.current : null))
+      anchorRef.current = id
+    },
+    [orderedIds],
+  )
+
+  /**
+   * Selects every selectable client, or deselects them when they are all selected already.
+   * Selected clients outside the current results are left as they are.
+   */
+  const toggleAll = React.useCallback(() => {
+    setSelectedIds((selected) => {
+      const next = new Set(selected)
+      const select = getSelectAllState(selected, orderedIds) !== true
+      for (const id of orderedIds) {
+        if (select) next.add(id)
+        else next.delete(id)
+      }
+      return next
+    })
+    anchorRef.current = null
+  }, [orderedIds])
+
+  /**
+   * Deselects every client.
+   */
+  const clear = React.useCallback(() => {
+    setSelectedIds(new Set())
+    anchorRef.current = null
+  }, [])
+
+  return { selectedIds, selectedClients, selectAllState, toggle, toggleAll, clear }
+}
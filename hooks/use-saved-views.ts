@@ -0,0 +1,96 @@
+import * as React from "react"
+import { DEFAULT_VIEW_STATE, EMPTY_VIEWS_STORE, type ViewsStore } from "@/lib/views"
+import { validateSortCriteria } from "@/lib/sort-storage"
+import { resolveColumnOrder } from "@/lib/columns"
+import { toast } from "@/hooks/use-toast"
+import { useStorageEvent } from "@/hooks/use-storage-event"
+
+const VIEWS_STORAGE_KEY = "clientViews"
+
+/**
+ * Parses the persisted views, dropping invalid sort criteria from each view rather than discarding the whole view.
+ * Reports what was dropped with a toast.
+ *
+ * @param {string} raw - The persisted JSON string.
+ * @returns {ViewsStore | null} The parsed store, or `null` if the payload is unusable.
+ */
+const parseViewsStore = (raw: string): ViewsStore | null => {
+  try {
+    const parsed: ViewsStore = JSON.parse(raw)
+    if (!parsed || !Array.isArray(parsed.views)) {
+      console.warn("Invalid saved views found in localStorage.")
+      return null
+    }
+    const discarded: string[] = []
+    const views = parsed.views.map((view) => {
+      const result = validateSortCriteria(view.state?.sortCriteria)
+      discarded.push(...result.discarded.map((reason) => `${view.name}: ${reason}`))
+      const state = { ...DEFAULT_VIEW_STATE, ...view.state, sortCriteria: result.criteria }
+      // Views saved before columns could be reordered, or before fields were added, get a complete column order
+      const columnOrder = resolveColumnOrder(Array.isArray(state.columnOrder) ? state.columnOrder : [])
+      return { ...view, state: { ...state, columnOrder } }
+    })
+    if (discarded.length > 0) {
+      console.warn("Discarded invalid sort criteria from saved views:", discarded)
+      toast({
+        title: "Some sort criteria in saved views were discarded",
+        description: discarded.join("; "),
+      })
+    }
+    return { ...EMPTY_VIEWS_STORE, ...parsed, views }
+  } catch (error) {
+    console.error("Failed to parse saved views from localStorage:", error)
+    return null
+  }
+}
+
+/**
+ * Keeps the saved views in sync with localStorage and with other open tabs.
+ * The store is loaded once on mount and written back on every change after that. Views saved in another tab
+ * replace the local ones, while the active view stays a per-tab choice.
+ *
+ * @returns {{ store: ViewsStore, setStore: (store: ViewsStore) => void, loaded: boolean }} The current store,
+ *   a setter, and whether the persisted store has been loaded yet.
+ */
+export function useSavedViews() {
+  const [store, setStore] = React.useState<ViewsStore>(EMPTY_VIEWS_STORE)
+  const [loaded, setLoaded] = React.useState(false)
+  // The last store written to or received from localStorage (as JSON), so received stores are not written back
+  const syncedStoreRef = React.useRef<string | null>(null)
+
+  React.useEffect(() => {
+    const saved = localStorage.getItem(VIEWS_STORAGE_KEY)
+    if (saved) {
+      const parsed = parseViewsStore(saved)
+      if (parsed) {
+        setStore(parsed)
+      } else {
+        localStorage.removeItem(VIEWS_STORAGE_KEY)
+      }
+    }
+    setLoaded(true)
+  }, [])
+
+  React.useEffect(() => {
+    // Do not overwrite the persisted views with the empty initial store before they are loaded
+    if (!loaded) return
+    const json = JSON.stringify(store)
+    if (json === syncedStoreRef.current) return
+    localStorage.setItem(VIEWS_STORAGE_KEY, json)
+    syncedStoreRef.current = json
+  }, [store, loaded])
+
+  useStorageEvent(VIEWS_STORAGE_KEY, (value) => {
+    const parsed = value ? parseViewsStore(value) : EMPTY_VIEWS_STORE
+    if (!parsed) return
+    setStore((current) => {
+      // Keep this tab's active view, unless it was deleted elsewhere
+      const activeViewId = parsed.views.some((view) => view.id === current.activeViewId) ? current.activeViewId : null
+      const next = { ...parsed, activeViewId }
+      syncedStoreRef.current = JSON.stringify(next)
+      return next
+    })
+  })
+
+  return { store, setStore, loaded }
+}
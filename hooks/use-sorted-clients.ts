@@ -0,0 +1,97 @@
+import * as React from "react"
+import type { Client } from "@/lib/data"
+import { applyMultiSort, type SortCriterion } from "@/lib/sort-utils"
+import { encodeClientColumns, type SortWorkerRequest, type SortWorkerResponse } from "@/lib/sort-worker-protocol"
+
+// Lists shorter than this are sorted on the main thread, where it is faster than a round trip to the worker
+const WORKER_SORT_THRESHOLD = 5_000
+
+/**
+ * @typedef {Object} SortedClientsResult
+ * @property {Client[]} sortedClients - The sorted clients. While a sort is running, the unsorted clients.
+ * @property {boolean} sorting - Whether a sort is running in the worker.
+ * @property {number} progress - An estimate of how far the running sort is, from 0 to 100.
+ */
+export type SortedClientsResult = {
+  sortedClients: Client[]
+  sorting: boolean
+  progress: number
+}
+
+/**
+ * Sorts clients by the given criteria. Large lists are sorted in a Web Worker so the page stays responsive:
+ * the fields being sorted by are sent as a compact columnar snapshot, and the worker replies with the sorted
+ * order. When the clients or criteria change while a sort is running, the stale job is cancelled by terminating
+ * the worker. If the worker fails, the clients are sorted on the main thread instead.
+ *
+ * @param {Client[]} clients - The clients to sort.
+ * @param {SortCriterion[]} criteria - The sort criteria, ordered by priority.
+ * @returns {SortedClientsResult} The sorted clients and the state of the running sort.
+ */
+export function useSortedClients(clients: Client[], criteria: SortCriterion[]): SortedClientsResult {
+  const offload = clients.length >= WORKER_SORT_THRESHOLD && criteria.length > 0
+  const syncSorted = React.useMemo(
+    () => (offload ? null : applyMultiSort(clients, criteria)),
+    [offload, clients, criteria],
+  )
+
+  // The latest worker result, along with the inputs it was computed from
+  const [result, setResult] = React.useState<{ clients: Client[]; criteria: SortCriterion[]; sorted: Client[] }>()
+  const [progress, setProgress] = React.useState(0)
+  const workerRef = React.useRef<Worker | null>(null)
+  const busyRef = React.useRef(false)
+  const jobIdRef = React.useRef(0)
+
+  React.useEffect(() => {
+    if (!offload) return
+
+    // A worker cannot be interrupted mid-sort, so a stale job is cancelled by replacing the worker
+    if (workerRef.current && busyRef.current) {
+      workerRef.current.terminate()
+      workerRef.current = null
+    }
+    const worker = (workerRef.current ??= new Worker(new URL("../lib/sort.worker.ts", import.meta.url)))
+    const jobId = ++jobIdRef.current
+    const fallBack = (reason: unknown) => {
+      console.error("Sorting in the worker failed, sorting on the main thread instead:", reason)
+      busyRef.current = false
+      setResult({ clients, criteria, sorted: applyMultiSort(clients, criteria) })
+    }
+
+    worker.onmessage = (event: MessageEvent<SortWorkerResponse>) => {
+      const response = event.data
+      if (response.jobId !== jobId) return
+      if (response.type === "progress") {
+        setProgress(response.progress)
+      } else if (response.type === "result") {
+        busyRef.current = false
+        setResult({ clients, criteria, sorted: Array.from(response.order, (index) => clients[index]) })
+      } else {
+        fallBack(response.message)
+      }
+    }
+    worker.onerror = (event) => fallBack(event.message)
+
+    busyRef.current = true
+    setProgress(0)
+    const { columns, transfer } = encodeClientColumns(clients, criteria)
+    const request: SortWorkerRequest = { type: "sort", jobId, columns, criteria }
+    worker.postMessage(request, transfer)
+  }, [offload, clients, criteria])
+
+  // Stop the worker when the component unmounts
+  React.useEffect(
+    () => () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      busyRef.current = false
+    },
+    [],
+  )
+
+  if (syncSorted) return { sortedClients: syncSorted, sorting: false, progress: 100 }
+  if (result && result.clients === clients && result.criteria === criteria) {
+    return { sortedClients: result.sorted, sorting: false, progress: 100 }
+  }
+  return { sortedClients: clients, sorting: true, progress }
+}
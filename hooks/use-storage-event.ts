@@ -0,0 +1,27 @@
+import * as React from "react"
+
+/**
+ * Calls `onChange` whenever another tab (or window) of the same origin writes the given localStorage key.
+ * The browser does not fire `storage` events in the tab that made the change, so handlers never see
+ * their own writes.
+ *
+ * @param {string} key - The localStorage key to watch.
+ * @param {(value: string | null) => void} onChange - Callback receiving the new value, or `null` if the key was removed.
+ */
+export function useStorageEvent(key: string, onChange: (value: string | null) => void) {
+  // Keep the latest callback without re-subscribing on every render
+  const onChangeRef = React.useRef(onChange)
+  React.useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  React.useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea === localStorage && event.key === key) {
+        onChangeRef.current(event.newValue)
+      }
+    }
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [key])
+}
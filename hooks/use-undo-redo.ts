@@ -0,0 +1,63 @@
+import * as React from "react"
+
+/**
+ * Wraps a piece of state with an undo/redo history.
+ * Only changes made through the returned `change` are recorded; setting the state directly (e.g. when it is
+ * restored from storage) leaves the history untouched. `undo` and `redo` are stable and always act on the
+ * latest state, so they can safely be called from toasts or keyboard handlers created earlier.
+ *
+ * @param {T} value - The current state.
+ * @param {(value: T) => void} setValue - The state setter.
+ * @param {number} [limit=50] - The maximum number of changes that can be undone.
+ * @returns {{ change: (next: T | ((current: T) => T)) => void, undo: () => void, redo: () => void,
+ *   canUndo: boolean, canRedo: boolean }} `change` also accepts an updater, called with the latest state.
+ */
+export function useUndoRedo<T>(value: T, setValue: (value: T) => void, limit = 50) {
+  const historyRef = React.useRef<{ past: T[]; future: T[] }>({ past: [], future: [] })
+  const latestRef = React.useRef(value)
+  // Bumped whenever the history changes, so `canUndo`/`canRedo` are re-read
+  const [, setVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    latestRef.current = value
+  }, [value])
+
+  const apply = React.useCallback(
+    (next: T, history: { past: T[]; future: T[] }) => {
+      historyRef.current = history
+      latestRef.current = next
+      setValue(next)
+      setVersion((version) => version + 1)
+    },
+    [setValue],
+  )
+
+  const change = React.useCallback(
+    (next: T | ((current: T) => T)) => {
+      const { past } = historyRef.current
+      const value = next instanceof Function ? next(latestRef.current) : next
+      apply(value, { past: [...past, latestRef.current].slice(-limit), future: [] })
+    },
+    [apply, limit],
+  )
+
+  const undo = React.useCallback(() => {
+    const { past, future } = historyRef.current
+    if (past.length === 0) return
+    apply(past[past.length - 1], { past: past.slice(0, -1), future: [latestRef.current, ...future] })
+  }, [apply])
+
+  const redo = React.useCallback(() => {
+    const { past, future } = historyRef.current
+    if (future.length === 0) return
+    apply(future[0], { past: [...past, latestRef.current], future: future.slice(1) })
+  }, [apply])
+
+  return {
+    change,
+    undo,
+    redo,
+    canUndo: historyRef.current.past.length > 0,
+    canRedo: historyRef.current.future.length > 0,
+  }
+}
@@ -0,0 +1,79 @@
+import * as React from "react"
+
+/**
+ * @typedef {Object} VirtualRowsOptions
+ * @property {React.RefObject<HTMLElement | null>} viewportRef - The scrolling element containing the rows.
+ * @property {number} count - The total number of rows.
+ * @property {number} rowHeight - The fixed height of every row, in pixels.
+ * @property {number} initialHeight - The viewport height assumed until it has been measured, in pixels.
+ * @property {number} [overscan=5] - Extra rows rendered above and below the visible ones, so fast scrolling
+ *   does not reveal blank space.
+ */
+export type VirtualRowsOptions = {
+  viewportRef: React.RefObject<HTMLElement | null>
+  count: number
+  rowHeight: number
+  initialHeight: number
+  overscan?: number
+}
+
+/**
+ * @typedef {Object} VirtualRowsWindow
+ * @property {number} start - Index of the first row to render.
+ * @property {number} end - Index after the last row to render.
+ * @property {number} paddingTop - Height of the space standing in for the rows before `start`, in pixels.
+ * @property {number} paddingBottom - Height of the space standing in for the rows from `end` on, in pixels.
+ * @property {number} visibleCount - How many rows fit in the viewport.
+ */
+export type VirtualRowsWindow = {
+  start: number
+  end: number
+  paddingTop: number
+  paddingBottom: number
+  visibleCount: number
+}
+
+/**
+ * Computes which rows of a fixed-row-height list are within (or near) the visible part of a scrolling viewport,
+ * so only those need to be rendered. Follows the viewport's scroll position and size.
+ *
+ * @param {VirtualRowsOptions} options - The viewport and row metrics.
+ * @returns {VirtualRowsWindow} The range of rows to render and the space to reserve around them.
+ */
+export function useVirtualRows({
+  viewportRef,
+  count,
+  rowHeight,
+  initialHeight,
+  overscan = 5,
+}: VirtualRowsOptions): VirtualRowsWindow {
+  const [scrollTop, setScrollTop] = React.useState(0)
+  const [viewportHeight, setViewportHeight] = React.useState(initialHeight)
+
+  React.useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const handleScroll = () => setScrollTop(viewport.scrollTop)
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(viewport.clientHeight))
+    viewport.addEventListener("scroll", handleScroll, { passive: true })
+    resizeObserver.observe(viewport)
+    handleScroll()
+    return () => {
+      viewport.removeEventListener("scroll", handleScroll)
+      resizeObserver.disconnect()
+    }
+  }, [viewportRef])
+
+  const visibleCount = Math.ceil(viewportHeight / rowHeight)
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const end = Math.min(count, Math.floor(scrollTop / rowHeight) + visibleCount + overscan)
+
+  return {
+    start,
+    end: Math.max(start, end),
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+    visibleCount,
+  }
+}
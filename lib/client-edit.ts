@@ -0,0 +1,55 @@
+import type { Client, ClientFieldId } from "./data"
+import { clientInputSchema } from "./client-schema"
+
+/**
+ * The client fields that can be edited in place in the table.
+ */
+export const editableClientFields = ["name", "email", "status"] as const satisfies readonly ClientFieldId[]
+
+/**
+ * Type definition for the ID of an editable client field, derived from `editableClientFields`.
+ */
+export type EditableClientField = (typeof editableClientFields)[number]
+
+/**
+ * @typedef {Partial<Pick<Client, EditableClientField>>} ClientChanges
+ * New values for some of a client's editable fields.
+ */
+export type ClientChanges = Partial<Pick<Client, EditableClientField>>
+
+/**
+ * Checks whether a field can be edited in place.
+ * @param {string} field - The ID of the field.
+ * @returns {boolean} `true` if the field is one of `editableClientFields`.
+ */
+export const isEditableClientField = (field: string): field is EditableClientField =>
+  (editableClientFields as readonly string[]).includes(field)
+
+/**
+ * Validates a new value for an editable field against `clientInputSchema`.
+ *
+ * @param {EditableClientField} field - The field being edited.
+ * @param {string} value - The value entered, before trimming.
+ * @returns {string | null} An error message to show, or `null` if the value is valid.
+ */
+export const validateClientValue = (field: EditableClientField, value: string): string | null => {
+  const result = clientInputSchema.shape[field].safeParse(value)
+  return result.success ? null : result.error.issues[0].message
+}
+
+/**
+ * Applies changes to a client, bumping its `updatedAt` when any value actually changed.
+ *
+ * @param {Client} client - The client to update.
+ * @param {ClientChanges} changes - The new values. Text values are trimmed.
+ * @param {Date} [now=new Date()] - The time of the update.
+ * @returns {Client} The updated client, or the same client if nothing changed.
+ */
+export const applyClientChanges = (client: Client, changes: ClientChanges, now: Date = new Date()): Client => {
+  const next: Client = { ...client }
+  if (changes.name !== undefined) next.name = changes.name.trim()
+  if (changes.email !== undefined) next.email = changes.email.trim()
+  if (changes.status !== undefined) next.status = changes.status
+  const changed = next.name !== client.name || next.email !== client.email || next.status !== client.status
+  return changed ? { ...next, updatedAt: now } : client
+}
@@ -0,0 +1,68 @@
+import { faker } from "@faker-js/faker"
+import { clientStatuses, type Client, type ClientStatus } from "./data"
+
+/**
+ * @typedef {Object} StatusChange
+ * @property {ClientStatus} status - The status the client took.
+ * @property {Date} changedAt - When it took it.
+ */
+export type StatusChange = {
+  status: ClientStatus
+  changedAt: Date
+}
+
+/**
+ * @typedef {Record<string, StatusChange[]>} StatusHistory
+ * The status changes of each client, keyed by client ID, oldest first. The last change holds the current status.
+ */
+export type StatusHistory = Record<string, StatusChange[]>
+
+/**
+ * Generates a plausible status history for mock clients: a status when the client was created, then up to
+ * two changes before its last update, ending with its current status.
+ *
+ * @param {Client[]} clients - The clients, e.g. from `generateMockClients`.
+ * @param {number} [seed] - Seeds faker first, so the same history is generated on every page load.
+ * @returns {StatusHistory} The history of every client.
+ */
+export const generateMockStatusHistory = (clients: Client[], seed?: number): StatusHistory => {
+  if (seed !== undefined) faker.seed(seed)
+  return Object.fromEntries(
+    clients.map((client) => {
+      const dates = faker.date
+        .betweens({ from: client.createdAt, to: client.updatedAt, count: faker.number.int({ min: 0, max: 2 }) })
+        .concat(client.updatedAt)
+      const changes: StatusChange[] = [
+        { status: faker.helpers.arrayElement(clientStatuses), changedAt: client.createdAt },
+        ...dates.map((changedAt, index) => ({
+          status: index === dates.length - 1 ? client.status : faker.helpers.arrayElement(clientStatuses),
+          changedAt,
+        })),
+      ]
+      // Drop the changes that kept the previous status
+      return [client.id, changes.filter((change, index) => index === 0 || change.status !== changes[index - 1].status)]
+    }),
+  )
+}
+
+/**
+ * Records the status changes between two versions of the clients: a change for each client whose status differs,
+ * dated with its `updatedAt`, and the initial status of each new client, dated with its `createdAt`.
+ *
+ * @param {StatusHistory} history - The history so far.
+ * @param {Client[]} previous - The clients before the update.
+ * @param {Client[]} next - The clients after the update.
+ * @returns {StatusHistory} The updated history, or the same one if no status changed.
+ */
+export const recordStatusChanges = (history: StatusHistory, previous: Client[], next: Client[]): StatusHistory => {
+  const previousById = new Map(previous.map((client) => [client.id, client]))
+  let updated: StatusHistory | null = null
+  for (const client of next) {
+    const before = previousById.get(client.id)
+    if (before?.status === client.status) continue
+    updated ??= { ...history }
+    const change = { status: client.status, changedAt: before ? client.updatedAt : client.createdAt }
+    updated[client.id] = [...(history[client.id] ?? []), change]
+  }
+  return updated ?? history
+}
@@ -0,0 +1,58 @@
+import { z } from "zod"
+import { clientStatuses, type Client } from "./data"
+import type { EditableClientField } from "./client-edit"
+
+/**
+ * Schema of the client values a user can enter: a required name, a valid email address and one of the
+ * `clientStatuses`. Text values are trimmed. Its shape follows the editable fields of `Client`.
+ */
+export const clientInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  email: z.string().trim().min(1, "Email is required").email("Enter a valid email address"),
+  status: z.enum(clientStatuses, { errorMap: () => ({ message: "Choose a valid status" }) }),
+}) satisfies z.ZodType<Pick<Client, EditableClientField>>
+
+/**
+ * @typedef {Object} ClientInput
+ * The values entered for a client, as validated by `clientInputSchema`.
+ */
+export type ClientInput = z.infer<typeof clientInputSchema>
+
+/**
+ * @typedef {Partial<Record<EditableClientField | "root", string>>} ClientInputErrors
+ * Error messages keyed by field, in the shape a server returns them; `root` holds errors about the whole client.
+ */
+export type ClientInputErrors = Partial<Record<EditableClientField | "root", string>>
+
+/**
+ * @typedef {Object} ClientValidationResult
+ * The outcome of validating client values: the parsed values, or the error message of each invalid field.
+ */
+export type ClientValidationResult = { ok: true; values: ClientInput } | { ok: false; errors: ClientInputErrors }
+
+/**
+ * Validates client values the way a server would before saving them: checks them against `clientInputSchema`,
+ * and checks that no other client already uses the email address (ignoring case).
+ *
+ * @param {unknown} input - The submitted values.
+ * @param {Client[]} clients - The existing clients.
+ * @param {string} [id] - The ID of the client being updated, which may keep its own email address.
+ * @returns {ClientValidationResult} The parsed values, or the first error message of each invalid field.
+ */
+export const validateClientInput = (input: unknown, clients: Client[], id?: string): ClientValidationResult => {
+  const parsed = clientInputSchema.safeParse(input)
+  if (!parsed.success) {
+    const errors: ClientInputErrors = {}
+    for (const issue of parsed.error.issues) {
+      const field = (issue.path[0] as EditableClientField | undefined) ?? "root"
+      errors[field] ??= issue.message
+    }
+    return { ok: false, errors }
+  }
+
+  const email = parsed.data.email.toLowerCase()
+  if (clients.some((client) => client.id !== id && client.email.toLowerCase() === email)) {
+    return { ok: false, errors: { email: "A client with this email already exists" } }
+  }
+  return { ok: true, values: parsed.data }
+}
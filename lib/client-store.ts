@@ -0,0 +1,139 @@
+import { createClientId, generateMockClients, MOCK_CLIENT_COUNT, MOCK_CLIENT_SEED, type Client } from "./data"
+import { applyFilters, EMPTY_FILTERS, type FilterState } from "./filter-utils"
+import { applySearch } from "./search-utils"
+import { applyMultiSort, type SortCriterion } from "./sort-utils"
+import { applyClientChanges } from "./client-edit"
+import { validateClientInput, type ClientInputErrors } from "./client-schema"
+
+/**
+ * The largest page the API returns, to keep responses small.
+ */
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * @typedef {Object} ClientListQuery
+ * @property {SortCriterion[]} [sortCriteria] - The sort criteria; unsorted when empty.
+ * @property {FilterState} [filters] - The filters to apply.
+ * @property {string} [query] - Quick search text.
+ * @property {number} page - The page to return, starting at 1.
+ * @property {number} pageSize - The number of clients per page.
+ */
+export type ClientListQuery = {
+  sortCriteria?: SortCriterion[]
+  filters?: FilterState
+  query?: string
+  page: number
+  pageSize: number
+}
+
+/**
+ * @typedef {Object} ClientListPage
+ * @property {Client[]} clients - The clients on the requested page.
+ * @property {number} page - The requested page.
+ * @property {number} pageSize - The number of clients per page.
+ * @property {number} total - The number of clients matching the filters and search, across all pages.
+ * @property {number} totalPages - The number of pages (at least 1).
+ */
+export type ClientListPage = {
+  clients: Client[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+/**
+ * @typedef {Object} ClientSaveResult
+ * The outcome of creating or updating a client: the saved client, or the error message of each invalid field.
+ */
+export type ClientSaveResult = { ok: true; client: Client } | { ok: false; errors: ClientInputErrors }
+
+// Kept on globalThis so the clients survive module reloads in development
+const globalForStore = globalThis as typeof globalThis & { clientStore?: Client[] }
+
+/**
+ * Returns the clients held in memory, seeding them with the mock clients on first use.
+ */
+const getClients = (): Client[] => {
+  globalForStore.clientStore ??= generateMockClients(MOCK_CLIENT_COUNT, MOCK_CLIENT_SEED)
+  return globalForStore.clientStore
+}
+
+const setClients = (clients: Client[]) => {
+  globalForStore.clientStore = clients
+}
+
+/**
+ * Lists a page of clients, filtered, searched and sorted the same way as the dashboard.
+ *
+ * @param {ClientListQuery} query - What to list.
+ * @returns {ClientListPage} The requested page and the totals.
+ */
+export const listClients = ({
+  sortCriteria = [],
+  filters = EMPTY_FILTERS,
+  query = "",
+  page,
+  pageSize,
+}: ClientListQuery): ClientListPage => {
+  const matching = applyMultiSort(applySearch(applyFilters(getClients(), filters), query), sortCriteria)
+  return {
+    clients: matching.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: matching.length,
+    totalPages: Math.max(1, Math.ceil(matching.length / pageSize)),
+  }
+}
+
+/**
+ * Looks up a client by ID.
+ * @param {string} id - The client's ID.
+ * @returns {Client | undefined} The client, or `undefined` if there is none.
+ */
+export const getClient = (id: string): Client | undefined => getClients().find((client) => client.id === id)
+
+/**
+ * Creates a client from submitted values, after validating them (including that the email is not in use).
+ *
+ * @param {unknown} input - The submitted name, email and status.
+ * @returns {ClientSaveResult} The new client, or the validation errors.
+ */
+export const createClient = (input: unknown): ClientSaveResult => {
+  const result = validateClientInput(input, getClients())
+  if (!result.ok) return result
+  const now = new Date()
+  const client: Client = { id: createClientId(), ...result.values, createdAt: now, updatedAt: now }
+  setClients([client, ...getClients()])
+  return { ok: true, client }
+}
+
+/**
+ * Updates a client with submitted values. Fields left out keep their current value.
+ *
+ * @param {string} id - The client's ID.
+ * @param {Record<string, unknown>} input - The submitted values.
+ * @returns {ClientSaveResult | null} The updated client or the validation errors, or `null` if there is no such client.
+ */
+export const updateClient = (id: string, input: Record<string, unknown>): ClientSaveResult | null => {
+  const client = getClient(id)
+  if (!client) return null
+  const { name, email, status } = client
+  const result = validateClientInput({ name, email, status, ...input }, getClients(), id)
+  if (!result.ok) return result
+  const updated = applyClientChanges(client, result.values)
+  setClients(getClients().map((c) => (c.id === id ? updated : c)))
+  return { ok: true, client: updated }
+}
+
+/**
+ * Deletes a client.
+ * @param {string} id - The client's ID.
+ * @returns {boolean} `true` if the client existed.
+ */
+export const deleteClient = (id: string): boolean => {
+  const clients = getClients()
+  const remaining = clients.filter((client) => client.id !== id)
+  setClients(remaining)
+  return remaining.length < clients.length
+}
@@ -0,0 +1,130 @@
+import type { Client } from "./data"
+import { MAX_PAGE_SIZE, type ClientListPage, type ClientListQuery } from "./client-store"
+import type { ClientInput, ClientInputErrors } from "./client-schema"
+import { serializeSortString } from "./sort-string"
+
+// Base path of the clients route handlers
+const API_PATH = "/api/clients"
+
+/**
+ * @typedef {Object} ClientRequestError
+ * Thrown when the clients API rejects a request.
+ * @property {number} status - The HTTP status of the response.
+ * @property {ClientInputErrors} [errors] - The error message of each invalid field, for rejected values.
+ */
+export class ClientRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public errors?: ClientInputErrors,
+  ) {
+    super(message)
+    this.name = "ClientRequestError"
+  }
+}
+
+// Clients arrive as JSON, with their dates as ISO strings
+type ClientJson = Omit<Client, "createdAt" | "updatedAt"> & { createdAt: string; updatedAt: string }
+
+const reviveClient = (client: ClientJson): Client => ({
+  ...client,
+  createdAt: new Date(client.createdAt),
+  updatedAt: new Date(client.updatedAt),
+})
+
+/**
+ * Describes why a request to the clients API failed, for a toast: the error message of each rejected field, or
+ * the error itself.
+ * @param {unknown} error - The error thrown by the request.
+ * @returns {string} The description.
+ */
+export const describeClientRequestError = (error: unknown): string => {
+  if (error instanceof ClientRequestError && error.errors) return Object.values(error.errors).join(". ")
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Sends a request to the clients API and returns the parsed JSON body, throwing a `ClientRequestError` if the
+ * response is not successful.
+ */
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  })
+  if (response.status === 204) return undefined as T
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new ClientRequestError(
+      body.error ?? `Request failed with status ${response.status}`,
+      response.status,
+      body.errors,
+    )
+  }
+  return body
+}
+
+/**
+ * Fetches a page of clients, filtered, searched and sorted on the server.
+ *
+ * @param {ClientListQuery} query - What to list.
+ * @returns {Promise<ClientListPage>} The requested page and the totals.
+ */
+export const fetchClients = async ({
+  sortCriteria = [],
+  filters,
+  query = "",
+  page,
+  pageSize,
+}: ClientListQuery): Promise<ClientListPage> => {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+  if (sortCriteria.length > 0) params.set("sort", serializeSortString(sortCriteria))
+  if (filters && filters.groups.length > 0) params.set("filter", JSON.stringify(filters))
+  if (query) params.set("q", query)
+
+  const result = await request<Omit<ClientListPage, "clients"> & { clients: ClientJson[] }>(`${API_PATH}?${params}`)
+  return { ...result, clients: result.clients.map(reviveClient) }
+}
+
+/**
+ * Fetches every client, one page of the largest size at a time.
+ * @returns {Promise<Client[]>} The clients, in the order the server holds them.
+ */
+export const fetchAllClients = async (): Promise<Client[]> => {
+  const clients: Client[] = []
+  for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+    const result = await fetchClients({ page, pageSize: MAX_PAGE_SIZE })
+    clients.push(...result.clients)
+    totalPages = result.totalPages
+  }
+  return clients
+}
+
+/**
+ * Creates a client.
+ * @param {ClientInput} values - The client's name, email and status.
+ * @returns {Promise<Client>} The new client.
+ */
+export const createClientRequest = async (values: ClientInput): Promise<Client> =>
+  reviveClient(await request<ClientJson>(API_PATH, { method: "POST", body: JSON.stringify(values) }))
+
+/**
+ * Updates some of a client's values.
+ * @param {string} id - The client's ID.
+ * @param {Partial<ClientInput>} changes - The values to change.
+ * @returns {Promise<Client>} The updated client.
+ */
+export const updateClientRequest = async (id: string, changes: Partial<ClientInput>): Promise<Client> =>
+  reviveClient(
+    await request<ClientJson>(`${API_PATH}/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    }),
+  )
+
+/**
+ * Deletes a client.
+ * @param {string} id - The client's ID.
+ */
+export const deleteClientRequest = async (id: string): Promise<void> =>
+  request<void>(`${API_PATH}/${encodeURIComponent(id)}`, { method: "DELETE" })
@@ -0,0 +1,77 @@
+/**
+ * @typedef {Object} CollationOptions
+ * Settings controlling how strings are compared.
+ * @property {string} [locale] - BCP 47 locale tag (e.g. "en", "de", "sv"). Uses the browser's locale when omitted.
+ * @property {boolean} [caseSensitive] - Whether "a" and "A" are different. Defaults to `false`.
+ * @property {boolean} [accentSensitive] - Whether "e" and "é" are different. Defaults to `true`.
+ * @property {boolean} [numeric] - Natural ordering of digit runs, so "Client 2" sorts before "Client 10". Defaults to `true`.
+ */
+export type CollationOptions = {
+  locale?: string
+  caseSensitive?: boolean
+  accentSensitive?: boolean
+  numeric?: boolean
+}
+
+/**
+ * The collation applied to string criteria that have no settings of their own.
+ */
+export const DEFAULT_COLLATION: Required<Omit<CollationOptions, "locale">> = {
+  caseSensitive: false,
+  accentSensitive: true,
+  numeric: true,
+}
+
+/**
+ * Locales offered in the sort panel, in addition to the browser's own locale.
+ */
+export const collationLocales = [
+  { value: "en", label: "English" },
+  { value: "de", label: "German" },
+  { value: "fr", label: "French" },
+  { value: "es", label: "Spanish" },
+  { value: "sv", label: "Swedish" },
+  { value: "tr", label: "Turkish" },
+] as const
+
+// Collators are relatively expensive to construct, so one instance is kept per distinct configuration.
+const collatorCache = new Map<string, Intl.Collator>()
+
+/**
+ * Maps the case/accent flags onto an `Intl.Collator` sensitivity level.
+ */
+const toSensitivity = (caseSensitive: boolean, accentSensitive: boolean): Intl.CollatorOptions["sensitivity"] => {
+  if (caseSensitive && accentSensitive) return "variant"
+  if (caseSensitive) return "case"
+  if (accentSensitive) return "accent"
+  return "base"
+}
+
+/**
+ * Returns a cached `Intl.Collator` for the given collation options.
+ * Unsupported or malformed locales fall back to the browser's locale instead of throwing.
+ *
+ * @param {CollationOptions} [options] - The collation settings; omitted settings use `DEFAULT_COLLATION`.
+ * @returns {Intl.Collator} A collator configured for the options.
+ */
+export const getCollator = (options: CollationOptions = {}): Intl.Collator => {
+  const { locale, caseSensitive, accentSensitive, numeric } = { ...DEFAULT_COLLATION, ...options }
+  const key = [locale ?? "", caseSensitive, accentSensitive, numeric].join("|")
+
+  let collator = collatorCache.get(key)
+  if (!collator) {
+    const collatorOptions: Intl.CollatorOptions = {
+      usage: "sort",
+      sensitivity: toSensitivity(caseSensitive, accentSensitive),
+      numeric,
+    }
+    try {
+      collator = new Intl.Collator(locale || undefined, collatorOptions)
+    } catch {
+      // Intl.Collator throws a RangeError for malformed locale tags
+      collator = new Intl.Collator(undefined, collatorOptions)
+    }
+    collatorCache.set(key, collator)
+  }
+  return collator
+}
@@ -0,0 +1,123 @@
+import { clientFields, getClientField, type ClientFieldId, type FieldType } from "./data"
+
+/**
+ * The columns of the client table in their default order: one per client field, as listed in `clientFields`.
+ */
+export const DEFAULT_COLUMN_ORDER: ClientFieldId[] = clientFields.map((field) => field.id)
+
+/**
+ * Resolves a saved column order against the current fields: unknown and repeated fields are dropped, and fields
+ * missing from the saved order (e.g. added since it was saved) are appended in their default order.
+ *
+ * @param {readonly string[]} order - The saved column order.
+ * @returns {ClientFieldId[]} The order of every column of the table.
+ */
+export const resolveColumnOrder = (order: readonly string[]): ClientFieldId[] => {
+  const known = DEFAULT_COLUMN_ORDER.filter((field) => order.includes(field)).sort(
+    (a, b) => order.indexOf(a) - order.indexOf(b),
+  )
+  return [...known, ...DEFAULT_COLUMN_ORDER.filter((field) => !known.includes(field))]
+}
+
+/**
+ * Lists the columns shown in the table, in display order.
+ *
+ * @param {readonly string[]} order - The column order.
+ * @param {readonly ClientFieldId[]} hidden - The hidden columns.
+ * @returns {ClientFieldId[]} The visible columns, in order.
+ */
+export const getVisibleColumns = (order: readonly string[], hidden: readonly ClientFieldId[]): ClientFieldId[] =>
+  resolveColumnOrder(order).filter((field) => !hidden.includes(field))
+
+/**
+ * Moves a column to the position of another one.
+ *
+ * @param {readonly string[]} order - The current column order.
+ * @param {ClientFieldId} field - The column to move.
+ * @param {ClientFieldId} target - The column whose position it takes.
+ * @returns {ClientFieldId[]} The new column order.
+ */
+export const moveColumn = (order: readonly string[], field: ClientFieldId, target: ClientFieldId): ClientFieldId[] => {
+  const next = resolveColumnOrder(order)
+  const from = next.indexOf(field)
+  const to = next.indexOf(target)
+  if (from === -1 || to === -1) return next
+  next.splice(to, 0, ...next.splice(from, 1))
+  return next
+}
+
+/**
+ * @typedef {Partial<Record<ClientFieldId, number>>} ColumnWidths
+ * Column widths set by the user, in pixels, keyed by field. Columns without one use their default width.
+ */
+export type ColumnWidths = Partial<Record<ClientFieldId, number>>
+
+/**
+ * The narrowest a column can be resized to, in pixels.
+ */
+export const MIN_COLUMN_WIDTH = 60
+
+// Default column widths by field type, in pixels
+const typeWidths: Record<FieldType, number> = {
+  string: 200,
+  date: 180,
+  number: 120,
+  enum: 120,
+  boolean: 100,
+}
+
+// Fields whose default width differs from their type's
+const fieldWidths: Partial<Record<ClientFieldId, number>> = { name: 150 }
+
+/**
+ * Returns the width of a column: its saved width if any, otherwise its default width.
+ *
+ * @param {ClientFieldId} field - The column's field.
+ * @param {ColumnWidths} widths - The saved column widths.
+ * @returns {number} The width in pixels.
+ */
+export const getColumnWidth = (field: ClientFieldId, widths: ColumnWidths): number =>
+  widths[field] ?? fieldWidths[field] ?? typeWidths[getClientField(field)?.type ?? "string"]
+
+/**
+ * Lists the columns shown in the table, in display order: pinned columns first, then the others, each group
+ * keeping the column order.
+ *
+ * @param {readonly string[]} order - The column order.
+ * @param {readonly ClientFieldId[]} hidden - The hidden columns.
+ * @param {readonly ClientFieldId[]} pinned - The columns pinned to the left.
+ * @returns {ClientFieldId[]} The visible columns, in order.
+ */
+export const arrangeColumns = (
+  order: readonly string[],
+  hidden: readonly ClientFieldId[],
+  pinned: readonly ClientFieldId[],
+): ClientFieldId[] => {
+  const visible = getVisibleColumns(order, hidden)
+  return [...visible.filter((field) => pinned.includes(field)), ...visible.filter((field) => !pinned.includes(field))]
+}
+
+/**
+ * Computes the left offset of each pinned column, so they stack against the left edge while scrolling sideways.
+ *
+ * @param {readonly ClientFieldId[]} columns - The visible columns, in display order (pinned ones first).
+ * @param {readonly ClientFieldId[]} pinned - The columns pinned to the left.
+ * @param {ColumnWidths} widths - The saved column widths.
+ * @param {number} [start=0] - The offset of the first pinned column, e.g. after a selection column.
+ * @returns {Partial<Record<ClientFieldId, number>>} The offsets in pixels, for pinned columns only.
+ */
+export const getPinnedOffsets = (
+  columns: readonly ClientFieldId[],
+  pinned: readonly ClientFieldId[],
+  widths: ColumnWidths,
+  start = 0,
+): Partial<Record<ClientFieldId, number>> => {
+  const offsets: Partial<Record<ClientFieldId, number>> = {}
+  let left = start
+  for (const field of columns) {
+    if (!pinned.includes(field)) break
+    offsets[field] = left
+    left += getColumnWidth(field, widths)
+  }
+  return offsets
+}
@@ -0,0 +1,133 @@
+import type { Client, FieldDefinition, FieldType } from "./data"
+import { getCollator, type CollationOptions } from "./collation"
+
+/**
+ * @typedef {string | number | boolean} SortKey
+ * A normalized, directly comparable value extracted from a client field.
+ */
+export type SortKey = string | number | boolean
+
+/**
+ * @typedef {"first" | "last"} NullPlacement
+ * Where empty values are placed relative to present ones, regardless of sort direction.
+ */
+export type NullPlacement = "first" | "last"
+
+/**
+ * @typedef {Object} ComparatorOptions
+ * Per-criterion settings that influence how values are extracted and compared.
+ * @property {readonly string[]} [rank] - Custom order of an "enum" field's values, overriding the field's `options` order.
+ * @property {CollationOptions} [collation] - How "string" values are collated.
+ */
+export interface ComparatorOptions {
+  rank?: readonly string[]
+  collation?: CollationOptions
+}
+
+/**
+ * @typedef {Object} FieldComparator
+ * Describes how values of a single field type are read and ordered.
+ * @property {(client: Client, field: FieldDefinition, options: ComparatorOptions) => T | null} extract - Reads the
+ *   field from a client and normalizes it into a sort key. Returns `null` when the value is missing or empty.
+ * @property {(a: T, b: T, options: ComparatorOptions) => number} compare - Orders two present sort keys ascending.
+ * @property {NullPlacement} nulls - Where empty values of this type are placed by default.
+ */
+export interface FieldComparator<T extends SortKey> {
+  extract(client: Client, field: FieldDefinition, options: ComparatorOptions): T | null
+  compare(a: T, b: T, options: ComparatorOptions): number
+  nulls: NullPlacement
+}
+
+/**
+ * Reads the raw value of a field from a client without assuming its type.
+ */
+const readValue = (client: Client, field: FieldDefinition): unknown => client[field.id]
+
+/**
+ * Orders two numbers ascending.
+ */
+const compareNumbers = (a: number, b: number): number => a - b
+
+/**
+ * Computes the sort position of an enum value.
+ * @param {string} value - The enum value.
+ * @param {FieldDefinition} field - The enum field definition.
+ * @param {readonly string[]} [rank] - Optional custom order of the field's values.
+ * @returns {number | null} The position of the value, or `null` if it is not one of the field's options.
+ */
+export const getEnumRank = (value: string, field: FieldDefinition, rank?: readonly string[]): number | null => {
+  const optionIndex = field.options ? field.options.indexOf(value) : -1
+  if (optionIndex === -1) return null
+  const rankIndex = rank ? rank.indexOf(value) : -1
+  return rankIndex !== -1 ? rankIndex : (rank?.length ?? 0) + optionIndex
+}
+
+/**
+ * Registry of comparators keyed by field type.
+ * Adding a field to `clientFields` only requires choosing one of these types; `applyMultiSort`
+ * dispatches through this registry and never needs to know about individual fields.
+ */
+export const fieldComparators: {
+  string: FieldComparator<string>
+  date: FieldComparator<number>
+  number: FieldComparator<number>
+  enum: FieldComparator<number>
+  boolean: FieldComparator<boolean>
+} = {
+  string: {
+    // Blank or whitespace-only strings count as empty.
+    extract: (client, field) => {
+      const value = readValue(client, field)
+      return typeof value === "string" && value.trim() !== "" ? value : null
+    },
+    // Strings are collated with a cached Intl.Collator built from the criterion's collation settings.
+    compare: (a, b, options) => getCollator(options.collation).compare(a, b),
+    nulls: "last",
+  },
+  date: {
+    // Dates are compared by timestamp. Date strings are parsed; invalid dates count as empty.
+    extract: (client, field) => {
+      const value = readValue(client, field)
+      const time = value instanceof Date ? value.getTime() : typeof value === "string" ? Date.parse(value) : NaN
+      return Number.isNaN(time) ? null : time
+    },
+    compare: compareNumbers,
+    nulls: "last",
+  },
+  number: {
+    extract: (client, field) => {
+      const value = readValue(client, field)
+      return typeof value === "number" && !Number.isNaN(value) ? value : null
+    },
+    compare: compareNumbers,
+    nulls: "last",
+  },
+  enum: {
+    // Enum values are compared by their position in the criterion's custom `rank`, falling back to the field's
+    // `options` order. Options missing from the rank come after ranked ones; unknown values count as empty.
+    extract: (client, field, options) => {
+      const value = readValue(client, field)
+      return typeof value === "string" ? getEnumRank(value, field, options.rank) : null
+    },
+    compare: compareNumbers,
+    nulls: "last",
+  },
+  boolean: {
+    // `false` sorts before `true` in ascending order.
+    extract: (client, field) => {
+      const value = readValue(client, field)
+      return typeof value === "boolean" ? value : null
+    },
+    compare: (a, b) => Number(a) - Number(b),
+    nulls: "last",
+  },
+}
+
+/**
+ * Returns the comparator registered for a field type.
+ * @param {FieldType} type - The field type.
+ * @returns {FieldComparator<SortKey>} The comparator for that type.
+ */
+export const getFieldComparator = (type: FieldType): FieldComparator<SortKey> => {
+  return fieldComparators[type]
+}
@@ -0,0 +1,122 @@
+import { getClientField, type Client } from "./data"
+import { getFieldComparator } from "./comparators"
+import { getCollator } from "./collation"
+import type { SortCriterion } from "./sort-utils"
+
+/**
+ * Orders two precomputed keys. `NaN` keys are empty values, placed independently of the direction.
+ */
+const compareKeys = (a: number, b: number, sign: number, emptyFirst: boolean): number => {
+  if (a === b) return 0
+  const aEmpty = Number.isNaN(a)
+  const bEmpty = Number.isNaN(b)
+  if (aEmpty || bEmpty) {
+    if (aEmpty && bEmpty) return 0
+    return aEmpty === emptyFirst ? -1 : 1
+  }
+  return a < b ? -sign : sign
+}
+
+/**
+ * Replaces strings by their rank among the distinct values, collated once: equal ranks for values the collator
+ * considers equal (e.g. differing only in case), increasing ranks otherwise. `null` becomes `NaN`.
+ */
+const rankStrings = (values: (string | null)[], compare: (a: string, b: string) => number): Float64Array => {
+  const distinct = [...new Set(values.filter((value) => value !== null))].sort(compare)
+  const ranks = new Map<string, number>()
+  distinct.forEach((value, index) => {
+    const previous = distinct[index - 1]
+    ranks.set(value, index > 0 && compare(previous, value) === 0 ? ranks.get(previous)! : index)
+  })
+  return Float64Array.from(values, (value) => (value === null ? NaN : ranks.get(value)!))
+}
+
+/**
+ * Compiles one criterion into a comparator of client indices, reading the values of every client once
+ * ("decorate") with the comparator registered for the field's type.
+ *
+ * Dates, numbers, enum ranks and booleans become numeric keys, which their comparators order numerically.
+ * Strings of the primary criterion are ranked up front ("collation keys"), since sorting by it collates all of
+ * them anyway; strings of later criteria, only consulted on ties, keep their values and are collated on demand
+ * with a collator resolved once. Empty-value placement follows the criterion's `nulls`, or the comparator's
+ * default, as in `resolveNullPlacement`.
+ */
+const compileCriterion = (
+  clients: Client[],
+  criterion: SortCriterion,
+  primary: boolean,
+): ((a: number, b: number) => number) | null => {
+  const field = getClientField(criterion.field)
+  if (!field) return null
+  const comparator = getFieldComparator(field.type)
+  const options = { rank: criterion.rank, collation: criterion.collation }
+  const values = clients.map((client) => comparator.extract(client, field, options))
+  const sign = criterion.direction === "asc" ? 1 : -1
+  const emptyFirst = (criterion.nulls ?? comparator.nulls) === "first"
+
+  if (field.type === "string") {
+    const strings = values as (string | null)[]
+    const collate = getCollator(criterion.collation).compare
+    if (!primary) {
+      return (a, b) => {
+        const valA = strings[a]
+        const valB = strings[b]
+        if (valA === null || valB === null) {
+          if (valA === valB) return 0
+          return (valA === null) === emptyFirst ? -1 : 1
+        }
+        return sign * collate(valA, valB)
+      }
+    }
+    const keys = rankStrings(strings, collate)
+    return (a, b) => compareKeys(keys[a], keys[b], sign, emptyFirst)
+  }
+
+  const keys = Float64Array.from(values, (value) => (value === null ? NaN : Number(value)))
+  return (a, b) => compareKeys(keys[a], keys[b], sign, emptyFirst)
+}
+
+/**
+ * Compiles sort criteria into a single comparator over precomputed keys for the given clients.
+ * The comparator orders client indices (positions in `clients`) rather than clients, which lets callers sort
+ * an index array and then map it back to clients ("decorate-sort-undecorate"). It orders clients exactly like
+ * `createClientComparator`, but without reading fields or resolving settings on every comparison.
+ *
+ * @param {Client[]} clients - The clients that will be sorted.
+ * @param {SortCriterion[]} criteria - An array of sorting criteria, ordered by priority.
+ * @returns {((a: number, b: number) => number) | null} The index comparator, or `null` if no criterion applies.
+ */
+export const compileSortCriteria = (
+  clients: Client[],
+  criteria: SortCriterion[],
+): ((a: number, b: number) => number) | null => {
+  const compilers = criteria
+    .filter((criterion) => getClientField(criterion.field))
+    .map((criterion, index) => compileCriterion(clients, criterion, index === 0)!)
+
+  if (compilers.length === 0) return null
+  // A single criterion needs no loop
+  if (compilers.length === 1) return compilers[0]
+
+  return (a, b) => {
+    for (const compare of compilers) {
+      const comparison = compare(a, b)
+      if (comparison !== 0) return comparison
+    }
+    return 0
+  }
+}
+
+/**
+ * Sorts client indices with a compiled comparator: decorates the clients with their precomputed keys and sorts
+ * their indices. Mapping the indices back to clients completes the decorate-sort-undecorate. The sort is stable.
+ *
+ * @param {Client[]} clients - The clients to sort.
+ * @param {SortCriterion[]} criteria - An array of sorting criteria, ordered by priority.
+ * @returns {number[]} The indices of the clients, in sorted order.
+ */
+export const sortClientIndices = (clients: Client[], criteria: SortCriterion[]): number[] => {
+  const order = Array.from({ length: clients.length }, (_, index) => index)
+  const compare = compileSortCriteria(clients, criteria)
+  return compare ? order.sort(compare) : order
+}
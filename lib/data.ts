@@ -15,38 +15,101 @@ export type Client = {
   email: string
   createdAt: Date
   updatedAt: Date
-  status: "active" | "inactive" | "pending" | "suspended"
+  status: ClientStatus
 }
 
+/**
+ * The possible client statuses, in their default (declaration) order.
+ */
+export const clientStatuses = ["active", "inactive", "pending", "suspended"] as const
+
+/**
+ * Type definition for a client status, derived from `clientStatuses`.
+ */
+export type ClientStatus = (typeof clientStatuses)[number]
+
+/**
+ * Formats a status, or any other enum field value, for display, e.g. "active" as "Active".
+ * @param {string} value - The value to format.
+ * @returns {string} The value with its first letter capitalized.
+ */
+export const formatEnumValue = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1)
+
+/**
+ * @typedef {"string" | "date" | "number" | "enum" | "boolean"} FieldType
+ * The kind of value a field holds. Determines which comparator is used when sorting by it.
+ */
+export type FieldType = "string" | "date" | "number" | "enum" | "boolean"
+
+/**
+ * @typedef {Object} FieldDefinition
+ * @property {keyof Client} id - The client property the field reads.
+ * @property {string} label - Human-readable label for display.
+ * @property {FieldType} type - The kind of value the field holds.
+ * @property {readonly string[]} [options] - The allowed values of an "enum" field, in their default order.
+ */
+export interface FieldDefinition {
+  id: keyof Client
+  label: string
+  type: FieldType
+  options?: readonly string[]
+}
+
+/**
+ * The number of mock clients the API starts with, and the seed generating them, so their IDs (and links to
+ * their pages) survive server restarts.
+ */
+export const MOCK_CLIENT_COUNT = 20
+export const MOCK_CLIENT_SEED = 20240601
+
+/**
+ * Generates an ID for a new client, the same way mock clients get theirs. Unlike `crypto.randomUUID`, it also
+ * works outside secure contexts, e.g. when the app is served over plain http from a LAN address.
+ * @returns {string} A random UUID.
+ */
+export const createClientId = (): string => faker.string.uuid()
+
 /**
  * Generates a specified number of mock client records using faker-js.
  * @param {number} count - The number of mock clients to generate.
+ * @param {number} [seed] - Seeds faker first, so the same clients (and IDs) are generated on every page load.
  * @returns {Client[]} An array of mock client objects.
  */
-export const generateMockClients = (count: number): Client[] => {
+export const generateMockClients = (count: number, seed?: number): Client[] => {
+  if (seed !== undefined) faker.seed(seed)
   return Array.from({ length: count }, (_, i) => ({
     id: faker.string.uuid(), // Generate a unique ID for each client
     name: faker.person.fullName(), // Generate a random full name
     email: faker.internet.email(), // Generate a random email address
     createdAt: faker.date.past({ years: 2 }), // Generate a creation date within the last 2 years
     updatedAt: faker.date.recent({ days: 30 }), // Generate an update date within the last 30 days
-    status: faker.helpers.arrayElement(["active", "inactive", "pending", "suspended"]), // Randomly select a status
+    status: faker.helpers.arrayElement(clientStatuses), // Randomly select a status
   }))
 }
 
 /**
  * Defines the fields available for sorting and display in the client table.
  * Each object contains an `id` (for internal use), a `label` (for display), and a `type` (for sorting logic).
+ * Enum fields also list their `options`.
  */
 export const clientFields = [
   { id: "name", label: "Name", type: "string" },
   { id: "email", label: "Email", type: "string" },
   { id: "createdAt", label: "Created At", type: "date" },
   { id: "updatedAt", label: "Updated At", type: "date" },
-  { id: "status", label: "Status", type: "string" },
-] as const // 'as const' ensures type safety for field IDs
+  { id: "status", label: "Status", type: "enum", options: clientStatuses },
+] as const satisfies readonly FieldDefinition[] // 'as const' ensures type safety for field IDs
 
 /**
  * Type definition for the ID of a client field, derived from `clientFields`.
  */
 export type ClientFieldId = (typeof clientFields)[number]["id"]
+
+/**
+ * Looks up the definition of a client field by its ID.
+ * @param {string} id - The ID of the field.
+ * @returns {FieldDefinition | undefined} The matching entry of `clientFields`, or `undefined` if there is none.
+ */
+export const getClientField = (id: string): FieldDefinition | undefined => {
+  return clientFields.find((field) => field.id === id)
+}
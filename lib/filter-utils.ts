@@ -0,0 +1,200 @@
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns"
+import { getClientField, type Client, type ClientFieldId, type FieldType } from "./data"
+
+/**
+ * @typedef {"contains" | "equals" | "startsWith" | "before" | "after" | "between" | "in"} FilterOperator
+ * The comparison a filter condition performs. Which operators apply depends on the field type
+ * (see `filterOperators`).
+ */
+export type FilterOperator = "contains" | "equals" | "startsWith" | "before" | "after" | "between" | "in"
+
+/**
+ * @typedef {"and" | "or"} FilterCombinator
+ * How several conditions (or groups) are combined: all must match, or at least one.
+ */
+export type FilterCombinator = "and" | "or"
+
+/**
+ * @typedef {Object} FilterCondition
+ * @property {string} id - A unique identifier for the condition.
+ * @property {ClientFieldId} field - The ID of the client field to test.
+ * @property {FilterOperator} operator - The comparison to perform.
+ * @property {string} value - The text to match, or the (start) date as "yyyy-MM-dd" for date operators.
+ * @property {string} [valueTo] - The end date as "yyyy-MM-dd" for the "between" operator.
+ * @property {string[]} [values] - The accepted values for the "in" operator.
+ */
+export type FilterCondition = {
+  id: string
+  field: ClientFieldId
+  operator: FilterOperator
+  value: string
+  valueTo?: string
+  values?: string[]
+}
+
+/**
+ * @typedef {Object} FilterGroup
+ * @property {string} id - A unique identifier for the group.
+ * @property {FilterCombinator} combinator - How the group's conditions are combined.
+ * @property {FilterCondition[]} conditions - The conditions in the group.
+ */
+export type FilterGroup = {
+  id: string
+  combinator: FilterCombinator
+  conditions: FilterCondition[]
+}
+
+/**
+ * @typedef {Object} FilterState
+ * @property {FilterCombinator} combinator - How the groups are combined.
+ * @property {FilterGroup[]} groups - The filter groups.
+ */
+export type FilterState = {
+  combinator: FilterCombinator
+  groups: FilterGroup[]
+}
+
+/**
+ * A filter state that lets every client through.
+ */
+export const EMPTY_FILTERS: FilterState = { combinator: "and", groups: [] }
+
+/**
+ * The operators available for each field type, with their display labels.
+ * Field types without an entry cannot be filtered on.
+ */
+export const filterOperators: Partial<Record<FieldType, { id: FilterOperator; label: string }[]>> = {
+  string: [
+    { id: "contains", label: "contains" },
+    { id: "equals", label: "equals" },
+    { id: "startsWith", label: "starts with" },
+  ],
+  date: [
+    { id: "before", label: "before" },
+    { id: "after", label: "after" },
+    { id: "between", label: "between" },
+  ],
+  enum: [{ id: "in", label: "is any of" }],
+}
+
+/**
+ * Creates a new condition for a field, using the first operator available for its type.
+ *
+ * @param {ClientFieldId} field - The ID of the client field to test.
+ * @returns {FilterCondition} The new, still empty condition.
+ */
+export const createFilterCondition = (field: ClientFieldId): FilterCondition => {
+  const type = getClientField(field)?.type
+  const operator = (type && filterOperators[type]?.[0]?.id) || "equals"
+  return { id: `filter-${Date.now()}-${field}`, field, operator, value: "", values: [] }
+}
+
+/**
+ * Creates a new, empty filter group.
+ * @returns {FilterGroup} The new group.
+ */
+export const createFilterGroup = (): FilterGroup => ({
+  id: `group-${Date.now()}`,
+  combinator: "and",
+  conditions: [],
+})
+
+/**
+ * Parses a "yyyy-MM-dd" filter date in local time.
+ * @returns {Date | null} The parsed date, or `null` if the value is empty, not a string or invalid.
+ */
+const parseFilterDate = (value: unknown): Date | null => {
+  if (!value || typeof value !== "string") return null
+  const date = parseISO(value)
+  return isValid(date) ? date : null
+}
+
+/**
+ * Tells whether a condition has enough input to be applied.
+ * Incomplete conditions (e.g. an empty search text) are ignored rather than matching nothing.
+ *
+ * @param {FilterCondition} condition - The condition to check.
+ * @returns {boolean} `true` if the condition should be applied.
+ */
+export const isConditionComplete = (condition: FilterCondition): boolean => {
+  switch (condition.operator) {
+    case "in":
+      return (condition.values?.length ?? 0) > 0
+    case "before":
+    case "after":
+      return parseFilterDate(condition.value) !== null
+    case "between":
+      return parseFilterDate(condition.value) !== null && parseFilterDate(condition.valueTo) !== null
+    default:
+      return condition.value.trim() !== ""
+  }
+}
+
+/**
+ * Tests a single client against a complete condition.
+ * Text comparisons are case-insensitive; date comparisons are by calendar day, inclusive for "between".
+ */
+const matchesCondition = (client: Client, condition: FilterCondition): boolean => {
+  const raw: unknown = client[condition.field]
+
+  switch (condition.operator) {
+    case "contains":
+    case "equals":
+    case "startsWith": {
+      if (typeof raw !== "string") return false
+      const text = raw.toLocaleLowerCase()
+      const query = condition.value.trim().toLocaleLowerCase()
+      if (condition.operator === "contains") return text.includes(query)
+      if (condition.operator === "startsWith") return text.startsWith(query)
+      return text === query
+    }
+    case "before":
+    case "after":
+    case "between": {
+      if (!(raw instanceof Date)) return false
+      const from = parseFilterDate(condition.value)!
+      if (condition.operator === "before") return raw < startOfDay(from)
+      if (condition.operator === "after") return raw > endOfDay(from)
+      const to = parseFilterDate(condition.valueTo)!
+      // Accept the range in either order
+      const [start, end] = from <= to ? [from, to] : [to, from]
+      return raw >= startOfDay(start) && raw <= endOfDay(end)
+    }
+    case "in":
+      return typeof raw === "string" && condition.values!.includes(raw)
+  }
+}
+
+/**
+ * Combines a list of results with a combinator. An empty list always matches.
+ */
+const combine = <T>(items: T[], combinator: FilterCombinator, test: (item: T) => boolean): boolean => {
+  if (items.length === 0) return true
+  return combinator === "and" ? items.every(test) : items.some(test)
+}
+
+/**
+ * Applies a filter state to an array of clients.
+ * Each group combines its conditions with its own combinator, and the groups are combined with the
+ * top-level combinator. Incomplete conditions, and groups left without complete conditions, are ignored.
+ *
+ * @param {Client[]} clients - The array of client objects to be filtered.
+ * @param {FilterState} filters - The filter state to apply.
+ * @returns {Client[]} A new array containing the clients that match.
+ */
+export const applyFilters = (clients: Client[], filters: FilterState): Client[] => {
+  // Drop incomplete conditions and the groups they leave empty, so they do not affect the result
+  const groups = filters.groups
+    .map((group) => ({ ...group, conditions: group.conditions.filter(isConditionComplete) }))
+    .filter((group) => group.conditions.length > 0)
+
+  if (groups.length === 0) {
+    return [...clients]
+  }
+
+  return clients.filter((client) =>
+    combine(groups, filters.combinator, (group) =>
+      combine(group.conditions, group.combinator, (condition) => matchesCondition(client, condition)),
+    ),
+  )
+}
@@ -0,0 +1,40 @@
+/**
+ * @typedef {Object} ListPosition
+ * Where the user was in the client list when opening a client, so coming back shows the same rows.
+ * @property {string} listKey - Identifies the list (sort, filters, search, page size) the position belongs to.
+ * @property {number} page - The page of the table.
+ * @property {number} scrollTop - The scroll offset of the table body, in pixels.
+ * @property {number} windowScrollY - The scroll offset of the window, in pixels.
+ */
+export type ListPosition = {
+  listKey: string
+  page: number
+  scrollTop: number
+  windowScrollY: number
+}
+
+// Session storage key of the saved position; it only needs to outlive a visit to a detail page
+const STORAGE_KEY = "clientListPosition"
+
+/**
+ * Saves the position in the client list for the current browser tab.
+ * @param {ListPosition} position - The position to save.
+ */
+export const saveListPosition = (position: ListPosition): void => {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(position))
+}
+
+/**
+ * Reads and forgets the saved position in the client list, so it is only restored once.
+ * @returns {ListPosition | null} The saved position, or `null` if there is none or it is malformed.
+ */
+export const takeListPosition = (): ListPosition | null => {
+  const value = sessionStorage.getItem(STORAGE_KEY)
+  sessionStorage.removeItem(STORAGE_KEY)
+  try {
+    const position = value ? JSON.parse(value) : null
+    return position && typeof position.listKey === "string" && Number.isFinite(position.page) ? position : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,85 @@
+import type { Client, ClientFieldId } from "./data"
+
+/**
+ * The fields the quick search looks into.
+ */
+export const searchableFields: ClientFieldId[] = ["name", "email", "status"]
+
+// Separator placed between fields in a client's search text, so a query never matches across two fields
+const FIELD_SEPARATOR = "\u0000"
+
+// Normalized search text per client. Keyed by the client object so it is recomputed only for new or edited records.
+const searchTextCache = new WeakMap<Client, string>()
+
+/**
+ * Normalizes text for case- and accent-insensitive matching: decomposes accented characters,
+ * drops the combining marks and lower-cases the result ("Élodie" → "elodie").
+ *
+ * @param {string} text - The text to normalize.
+ * @returns {string} The normalized text.
+ */
+export const normalizeForSearch = (text: string): string => {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+}
+
+/**
+ * Returns the normalized search text of a client, computing and caching it on first use.
+ */
+const getSearchText = (client: Client): string => {
+  let text = searchTextCache.get(client)
+  if (text === undefined) {
+    text = searchableFields.map((field) => normalizeForSearch(String(client[field] ?? ""))).join(FIELD_SEPARATOR)
+    searchTextCache.set(client, text)
+  }
+  return text
+}
+
+/**
+ * Keeps the clients whose name, email or status contains the query, ignoring case and accents.
+ * Normalized client text is cached, so repeated searches over the same clients only scan strings.
+ *
+ * @param {Client[]} clients - The array of client objects to search.
+ * @param {string} query - The search query. A blank query matches every client.
+ * @returns {Client[]} A new array containing the matching clients, in their original order.
+ */
+export const applySearch = (clients: Client[], query: string): Client[] => {
+  const needle = normalizeForSearch(query.trim())
+  if (!needle) {
+    return [...clients]
+  }
+  return clients.filter((client) => getSearchText(client).includes(needle))
+}
+
+/**
+ * Finds the ranges of `text` that match the query, ignoring case and accents.
+ * Ranges refer to positions in the original `text`, so they can be used to highlight it.
+ *
+ * @param {string} text - The text to search in.
+ * @param {string} query - The search query.
+ * @returns {[number, number][]} Non-overlapping `[start, end)` ranges, in order.
+ */
+export const findMatches = (text: string, query: string): [number, number][] => {
+  const needle = normalizeForSearch(query.trim())
+  if (!needle) return []
+
+  // Normalize character by character, remembering which original character each normalized one came from
+  let normalized = ""
+  const origins: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const part = normalizeForSearch(text[i])
+    for (let j = 0; j < part.length; j++) origins.push(i)
+    normalized += part
+  }
+
+  const ranges: [number, number][] = []
+  let index = normalized.indexOf(needle)
+  while (index !== -1) {
+    const end = index + needle.length
+    ranges.push([origins[index], origins[end - 1] + 1])
+    index = normalized.indexOf(needle, end)
+  }
+  return ranges
+}
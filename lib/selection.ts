@@ -0,0 +1,71 @@
+import { clientFields, type Client } from "./data"
+
+/**
+ * @typedef {boolean | "indeterminate"} SelectAllState
+ * The state of a "select all" checkbox: every row selected, none, or only some.
+ */
+export type SelectAllState = boolean | "indeterminate"
+
+/**
+ * Selects or deselects a row, or a range of rows.
+ * A range runs from the anchor (the last row toggled on its own) to the row, both included, following the given
+ * order; every row in it takes the row's new state. Without an anchor in the order, only the row is toggled.
+ *
+ * @param {ReadonlySet<string>} selected - The IDs of the selected rows.
+ * @param {readonly string[]} orderedIds - The IDs of the selectable rows, in display order.
+ * @param {string} id - The ID of the row being toggled.
+ * @param {string | null} anchorId - The ID of the row a range starts from, or `null` to toggle only this row.
+ * @returns {Set<string>} The new selection.
+ */
+export const toggleRowSelection = (
+  selected: ReadonlySet<string>,
+  orderedIds: readonly string[],
+  id: string,
+  anchorId: string | null,
+): Set<string> => {
+  const next = new Set(selected)
+  const select = !selected.has(id)
+  const from = anchorId === null ? -1 : orderedIds.indexOf(anchorId)
+  const to = orderedIds.indexOf(id)
+  const range = from === -1 || to === -1 ? [id] : orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+  for (const rowId of range) {
+    if (select) next.add(rowId)
+    else next.delete(rowId)
+  }
+  return next
+}
+
+/**
+ * Computes the state of the "select all" checkbox for the selectable rows.
+ *
+ * @param {ReadonlySet<string>} selected - The IDs of the selected rows.
+ * @param {readonly string[]} ids - The IDs of the selectable rows.
+ * @returns {SelectAllState} `true` if they are all selected, `false` if none are, `"indeterminate"` otherwise.
+ */
+export const getSelectAllState = (selected: ReadonlySet<string>, ids: readonly string[]): SelectAllState => {
+  const count = ids.filter((id) => selected.has(id)).length
+  if (count === 0) return false
+  return count === ids.length ? true : "indeterminate"
+}
+
+/**
+ * Quotes a CSV value when it contains a separator, a quote or a line break.
+ */
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * Converts clients to CSV, with a header row and one column per client field. Dates are written in ISO 8601.
+ *
+ * @param {Client[]} clients - The clients to export, in the order they should appear.
+ * @returns {string} The CSV text.
+ */
+export const clientsToCsv = (clients: Client[]): string => {
+  const header = ["id", ...clientFields.map((field) => field.id)]
+  const rows = clients.map((client) =>
+    header.map((key) => {
+      const value: unknown = client[key as keyof Client]
+      return escapeCsv(value instanceof Date ? value.toISOString() : String(value ?? ""))
+    }),
+  )
+  return [header, ...rows].map((row) => row.join(",")).join("\r\n")
+}
@@ -0,0 +1,89 @@
+import type { Client } from "./data"
+import { applyMultiSort, createClientComparator, createSortCriterion, type SortCriterion } from "./sort-utils"
+
+/**
+ * @typedef {Object} SortBenchmarkCase
+ * @property {string} name - A description of the criteria.
+ * @property {SortCriterion[]} criteria - The sort criteria to time.
+ */
+export type SortBenchmarkCase = {
+  name: string
+  criteria: SortCriterion[]
+}
+
+/**
+ * @typedef {Object} SortBenchmarkResult
+ * @property {string} name - The name of the case.
+ * @property {number} size - The number of clients sorted.
+ * @property {number} referenceMs - Median time of `createClientComparator`, which reads fields on every comparison.
+ * @property {number} compiledMs - Median time of `applyMultiSort`, which compares precomputed keys.
+ * @property {boolean} matches - Whether both produced the same order.
+ */
+export type SortBenchmarkResult = {
+  name: string
+  size: number
+  referenceMs: number
+  compiledMs: number
+  matches: boolean
+}
+
+/**
+ * The criteria timed by default, from a single string sort to mixed-type multi-criteria sorts.
+ */
+export const SORT_BENCHMARK_CASES: SortBenchmarkCase[] = [
+  { name: "Name", criteria: [createSortCriterion("name")] },
+  { name: "Updated At (desc)", criteria: [createSortCriterion("updatedAt", "desc")] },
+  {
+    name: "Status, Updated At (desc)",
+    criteria: [createSortCriterion("status"), createSortCriterion("updatedAt", "desc")],
+  },
+  {
+    name: "Status (custom order), Name, Email",
+    criteria: [
+      { ...createSortCriterion("status"), rank: ["pending", "active"] },
+      { ...createSortCriterion("name"), collation: { caseSensitive: true } },
+      createSortCriterion("email"),
+    ],
+  },
+]
+
+/**
+ * Returns the median of the durations, in milliseconds, of running `fn` several times, along with its last result.
+ */
+const time = <T>(fn: () => T, runs: number): { ms: number; result: T } => {
+  const durations: number[] = []
+  let result!: T
+  for (let run = 0; run < runs; run++) {
+    const start = performance.now()
+    result = fn()
+    durations.push(performance.now() - start)
+  }
+  durations.sort((a, b) => a - b)
+  return { ms: durations[Math.floor(durations.length / 2)], result }
+}
+
+/**
+ * Times the compiled comparators of `applyMultiSort` against the reference comparator on the same clients,
+ * and checks that both produce the same order.
+ *
+ * @param {Client[]} clients - The clients to sort.
+ * @param {SortBenchmarkCase[]} [cases=SORT_BENCHMARK_CASES] - The criteria to time.
+ * @param {number} [runs=3] - How many times each implementation runs per case; the median time is reported.
+ * @returns {SortBenchmarkResult[]} One result per case.
+ */
+export const runSortBenchmark = (
+  clients: Client[],
+  cases: SortBenchmarkCase[] = SORT_BENCHMARK_CASES,
+  runs = 3,
+): SortBenchmarkResult[] =>
+  cases.map(({ name, criteria }) => {
+    const reference = time(() => [...clients].sort(createClientComparator(criteria) ?? (() => 0)), runs)
+    const compiled = time(() => applyMultiSort(clients, criteria), runs)
+    return {
+      name,
+      size: clients.length,
+      referenceMs: reference.ms,
+      compiledMs: compiled.ms,
+      matches: reference.result.every((client, index) => client === compiled.result[index]),
+    }
+  })
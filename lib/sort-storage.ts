@@ -0,0 +1,186 @@
+import { getClientField, type ClientFieldId } from "./data"
+import type { SortCriterion } from "./sort-utils"
+import type { CollationOptions } from "./collation"
+
+/**
+ * The localStorage key the sort criteria are persisted under.
+ */
+export const SORT_STORAGE_KEY = "clientSortCriteria"
+
+/**
+ * The current version of the persisted sort criteria format.
+ *
+ * - Version 1: a bare JSON array of criteria (the original format, without an envelope).
+ * - Version 2: an envelope `{ version: 2, criteria: [...] }`.
+ * - Version 3: adds `savedAt`, the time of the write, so tabs can tell which change is the latest.
+ */
+export const SORT_STORAGE_VERSION = 3
+
+/**
+ * @typedef {Object} SortStorageEnvelope
+ * @property {number} version - The format version the criteria were written with.
+ * @property {unknown} criteria - The persisted criteria, validated on load.
+ * @property {number} [savedAt] - When the criteria were written, in milliseconds since the epoch (version 3+).
+ */
+export type SortStorageEnvelope = {
+  version: number
+  criteria: unknown
+  savedAt?: number
+}
+
+/**
+ * @typedef {Object} SortCriteriaLoadResult
+ * @property {SortCriterion[]} criteria - The criteria that passed validation.
+ * @property {string[]} discarded - Human-readable reasons for every criterion (or payload) that was dropped.
+ * @property {number} savedAt - When the criteria were written, or 0 if unknown.
+ */
+export type SortCriteriaLoadResult = {
+  criteria: SortCriterion[]
+  discarded: string[]
+  savedAt: number
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Each one turns an envelope of version `n`
+ * into an envelope of version `n + 1`.
+ */
+const migrations: Record<number, (envelope: SortStorageEnvelope) => SortStorageEnvelope> = {
+  // Version 1 stored the criteria array directly; it is wrapped into an envelope before reaching here.
+  1: (envelope) => ({ version: 2, criteria: envelope.criteria }),
+  // Older writes have no known time, so any newer write wins over them.
+  2: (envelope) => ({ version: 3, criteria: envelope.criteria, savedAt: 0 }),
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Validates optional collation settings, keeping only the well-typed properties.
+ * @returns {CollationOptions | undefined | null} The cleaned settings, `undefined` if absent, or `null` if invalid.
+ */
+const validateCollation = (value: unknown): CollationOptions | undefined | null => {
+  if (value === undefined) return undefined
+  if (!isObject(value)) return null
+  const collation: CollationOptions = {}
+  if (typeof value.locale === "string" && value.locale) collation.locale = value.locale
+  if (typeof value.caseSensitive === "boolean") collation.caseSensitive = value.caseSensitive
+  if (typeof value.accentSensitive === "boolean") collation.accentSensitive = value.accentSensitive
+  if (typeof value.numeric === "boolean") collation.numeric = value.numeric
+  return collation
+}
+
+/**
+ * Validates a single persisted criterion.
+ *
+ * @param {unknown} value - The value to validate.
+ * @returns {{ criterion: SortCriterion } | { error: string }} The valid criterion, or why it was rejected.
+ */
+export const validateSortCriterion = (value: unknown): { criterion: SortCriterion } | { error: string } => {
+  if (!isObject(value)) return { error: "a criterion is not an object" }
+  const { id, field, direction, nulls, rank, collation } = value
+
+  if (typeof field !== "string" || field === "") return { error: "a criterion has no field" }
+  const definition = getClientField(field)
+  if (!definition) return { error: `unknown field "${field}"` }
+  const label = definition.label
+
+  if (typeof id !== "string" || id === "") return { error: `${label}: missing ID` }
+  if (direction !== "asc" && direction !== "desc") return { error: `${label}: invalid direction` }
+  if (nulls !== undefined && nulls !== "first" && nulls !== "last") {
+    return { error: `${label}: invalid empty-value placement` }
+  }
+  if (rank !== undefined && (!Array.isArray(rank) || !rank.every((v) => typeof v === "string"))) {
+    return { error: `${label}: invalid value order` }
+  }
+  const validCollation = validateCollation(collation)
+  if (validCollation === null) return { error: `${label}: invalid collation` }
+
+  const criterion: SortCriterion = { id, field: field as ClientFieldId, direction }
+  if (nulls !== undefined) criterion.nulls = nulls
+  // A custom order only applies to enum fields, and only to values the field still has
+  if (rank !== undefined && definition.type === "enum") {
+    criterion.rank = rank.filter((v) => definition.options?.includes(v))
+  }
+  if (validCollation !== undefined && definition.type === "string") criterion.collation = validCollation
+  return { criterion }
+}
+
+/**
+ * Validates a list of persisted criteria, dropping only the invalid ones (and repeated fields).
+ *
+ * @param {unknown} values - The value to validate, expected to be an array of criteria.
+ * @returns {Omit<SortCriteriaLoadResult, "savedAt">} The valid criteria and the reasons for the dropped ones.
+ */
+export const validateSortCriteria = (values: unknown): Omit<SortCriteriaLoadResult, "savedAt"> => {
+  if (!Array.isArray(values)) {
+    return { criteria: [], discarded: ["the saved sort criteria are not a list"] }
+  }
+
+  const criteria: SortCriterion[] = []
+  const discarded: string[] = []
+  for (const value of values) {
+    const result = validateSortCriterion(value)
+    if ("error" in result) {
+      discarded.push(result.error)
+    } else if (criteria.some((c) => c.field === result.criterion.field)) {
+      discarded.push(`${getClientField(result.criterion.field)?.label}: duplicate criterion`)
+    } else {
+      criteria.push(result.criterion)
+    }
+  }
+  return { criteria, discarded }
+}
+
+/**
+ * Reads persisted sort criteria: parses the JSON, migrates older versions to the current one,
+ * and validates each criterion.
+ *
+ * @param {string | null} raw - The persisted string, e.g. from localStorage.
+ * @returns {SortCriteriaLoadResult} The valid criteria and the reasons for anything that was discarded.
+ */
+export const loadSortCriteria = (raw: string | null): SortCriteriaLoadResult => {
+  if (raw === null) return { criteria: [], discarded: [], savedAt: 0 }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return { criteria: [], discarded: ["the saved sort criteria could not be read"], savedAt: 0 }
+  }
+
+  // Version 1 had no envelope
+  let envelope: SortStorageEnvelope = Array.isArray(parsed)
+    ? { version: 1, criteria: parsed }
+    : isObject(parsed) && typeof parsed.version === "number"
+      ? { version: parsed.version, criteria: parsed.criteria, savedAt: Number(parsed.savedAt) || 0 }
+      : { version: 0, criteria: undefined }
+
+  const unsupported = {
+    criteria: [],
+    discarded: [`the saved sort criteria have an unsupported format (${envelope.version})`],
+    savedAt: 0,
+  }
+  if (!Number.isInteger(envelope.version) || envelope.version < 1 || envelope.version > SORT_STORAGE_VERSION) {
+    return unsupported
+  }
+  while (envelope.version < SORT_STORAGE_VERSION) {
+    // A version without a migration cannot be upgraded, so its data is discarded
+    const migrate = migrations[envelope.version]
+    if (!migrate) return unsupported
+    envelope = migrate(envelope)
+  }
+
+  return { ...validateSortCriteria(envelope.criteria), savedAt: envelope.savedAt ?? 0 }
+}
+
+/**
+ * Serializes sort criteria in the current versioned format.
+ *
+ * @param {SortCriterion[]} criteria - The criteria to persist.
+ * @param {number} [savedAt=Date.now()] - The time of the write.
+ * @returns {string} The JSON string to store.
+ */
+export const serializeSortCriteria = (criteria: SortCriterion[], savedAt: number = Date.now()): string => {
+  const envelope: SortStorageEnvelope = { version: SORT_STORAGE_VERSION, criteria, savedAt }
+  return JSON.stringify(envelope)
+}
@@ -0,0 +1,172 @@
+import { clientFields, getClientField, type ClientFieldId, type FieldDefinition } from "./data"
+import { createSortCriterion, type SortCriterion } from "./sort-utils"
+import type { CollationOptions } from "./collation"
+
+/**
+ * @typedef {Object} SortStringParseResult
+ * @property {SortCriterion[]} criteria - The criteria that were parsed without error.
+ * @property {string[]} errors - One message per rejected criterion, naming its position, its text and the problem.
+ */
+export type SortStringParseResult = {
+  criteria: SortCriterion[]
+  errors: string[]
+}
+
+// Flag modifiers of string fields, and the collation setting each one sets
+const collationFlags: Record<string, [Exclude<keyof CollationOptions, "locale">, boolean]> = {
+  case: ["caseSensitive", true],
+  nocase: ["caseSensitive", false],
+  accent: ["accentSensitive", true],
+  noaccent: ["accentSensitive", false],
+  numeric: ["numeric", true],
+  nonumeric: ["numeric", false],
+}
+
+// Describes each setting in error messages about repeated modifiers
+const settingLabels: Record<string, string> = {
+  nulls: "empty-value placement",
+  rank: "value order",
+  locale: "locale",
+  caseSensitive: "case sensitivity",
+  accentSensitive: "accent sensitivity",
+  numeric: "numeric ordering",
+}
+
+/**
+ * Lists the modifiers a field accepts, for error messages.
+ */
+const describeModifiers = (definition: FieldDefinition): string => {
+  const modifiers = ["nulls-first", "nulls-last"]
+  if (definition.type === "enum") modifiers.push("rank", "rank(value|...)")
+  if (definition.type === "string") modifiers.push("locale(tag)", ...Object.keys(collationFlags))
+  return modifiers.join(", ")
+}
+
+/**
+ * Parses one criterion of a sort string.
+ * @returns {{ criterion: SortCriterion } | { error: string }} The criterion, or what is wrong with it.
+ */
+const parseCriterion = (token: string): { criterion: SortCriterion } | { error: string } => {
+  if (token === "") return { error: "empty criterion" }
+
+  const [head, ...modifiers] = token.split(":")
+  const descending = head.startsWith("-")
+  const fieldId = descending ? head.slice(1) : head
+  if (fieldId === "") return { error: "missing field" }
+  const definition = getClientField(fieldId)
+  if (!definition) {
+    return {
+      error: `unknown field "${fieldId}" (expected one of: ${clientFields.map((field) => field.id).join(", ")})`,
+    }
+  }
+
+  const criterion = createSortCriterion(fieldId as ClientFieldId, descending ? "desc" : "asc")
+  const collation: CollationOptions = {}
+  // Settings already given by an earlier modifier, so repeated or conflicting modifiers are reported
+  const seen = new Set<string>()
+  const set = (setting: string, modifier: string): string | null => {
+    if (seen.has(setting)) return `modifier "${modifier}" repeats the ${settingLabels[setting]}`
+    seen.add(setting)
+    return null
+  }
+
+  for (const modifier of modifiers) {
+    const call = /^([a-z-]+)(?:\((.*)\))?$/.exec(modifier)
+    const [name, argument] = call ? [call[1], call[2]] : [modifier, undefined]
+    let error: string | null = null
+
+    if ((name === "nulls-first" || name === "nulls-last") && argument === undefined) {
+      error = set("nulls", modifier)
+      criterion.nulls = name === "nulls-first" ? "first" : "last"
+    } else if (name === "rank" && definition.type === "enum") {
+      error = set("rank", modifier)
+      const rank = argument === undefined ? [] : argument.split("|")
+      const unknown = rank.find((value) => !definition.options?.includes(value))
+      const repeated = rank.find((value, index) => rank.indexOf(value) !== index)
+      if (unknown !== undefined) {
+        error = `unknown ${definition.id} value "${unknown}" in "${modifier}" (expected: ${definition.options?.join(", ")})`
+      } else if (repeated !== undefined) {
+        error = `repeated ${definition.id} value "${repeated}" in "${modifier}"`
+      }
+      criterion.rank = rank
+    } else if (name === "locale" && argument !== undefined && definition.type === "string") {
+      error = set("locale", modifier) ?? (argument === "" ? `missing locale tag in "${modifier}"` : null)
+      collation.locale = argument
+    } else if (Object.hasOwn(collationFlags, name) && argument === undefined && definition.type === "string") {
+      const [setting, enabled] = collationFlags[name]
+      error = set(setting, modifier)
+      collation[setting] = enabled
+    } else {
+      error = `unknown modifier "${modifier}" for ${definition.type} field "${fieldId}" (expected one of: ${describeModifiers(definition)})`
+    }
+
+    if (error) return { error }
+  }
+
+  if (Object.keys(collation).length > 0) criterion.collation = collation
+  return { criterion }
+}
+
+/**
+ * Parses a sort string into sort criteria. The grammar, shared by the dashboard URL and the clients API:
+ *
+ * ```
+ * sort      = criterion *( "," criterion )
+ * criterion = [ "-" ] field *( ":" modifier )
+ * field     = the ID of one of `clientFields`, e.g. "name" or "updatedAt"
+ * modifier  = "nulls-first" / "nulls-last"                          ; any field
+ *           / "rank" [ "(" value *( "|" value ) ")" ]              ; enum fields
+ *           / "locale(" tag ")" / "case" / "nocase" / "accent"
+ *             / "noaccent" / "numeric" / "nonumeric"               ; string fields
+ * ```
+ *
+ * A leading "-" sorts descending. `rank` sorts by the field's value order: the listed values first, then the
+ * others in their default order. The string modifiers set the criterion's collation; anything left out falls back
+ * to its default. For example, `status:rank(active|pending),-updatedAt:nulls-last,name:locale(de):case`.
+ *
+ * Each criterion is checked on its own: invalid and repeated ones are reported in `errors` and left out of
+ * `criteria`, so callers can either ignore them (URL state) or reject the whole string (API).
+ *
+ * @param {string} value - The sort string. An empty string means no sorting.
+ * @returns {SortStringParseResult} The valid criteria and an error message per rejected criterion.
+ */
+export const parseSortString = (value: string): SortStringParseResult => {
+  const criteria: SortCriterion[] = []
+  const errors: string[] = []
+  if (value === "") return { criteria, errors }
+
+  value.split(",").forEach((token, index) => {
+    const result = parseCriterion(token)
+    const prefix = `sort criterion ${index + 1} ("${token}")`
+    if ("error" in result) {
+      errors.push(`${prefix}: ${result.error}`)
+    } else if (criteria.some((c) => c.field === result.criterion.field)) {
+      errors.push(`${prefix}: field "${result.criterion.field}" is already sorted on`)
+    } else {
+      criteria.push(result.criterion)
+    }
+  })
+  return { criteria, errors }
+}
+
+/**
+ * Serializes sort criteria into the grammar read by `parseSortString`, keeping every setting of each criterion,
+ * so that parsing the result gives back the same criteria (apart from their IDs).
+ *
+ * @param {SortCriterion[]} criteria - The criteria to serialize.
+ * @returns {string} The sort string, e.g. "status:rank(active),-updatedAt".
+ */
+export const serializeSortString = (criteria: SortCriterion[]): string =>
+  criteria
+    .map((criterion) => {
+      const parts = [`${criterion.direction === "desc" ? "-" : ""}${criterion.field}`]
+      if (criterion.nulls) parts.push(`nulls-${criterion.nulls}`)
+      if (criterion.rank) parts.push(criterion.rank.length > 0 ? `rank(${criterion.rank.join("|")})` : "rank")
+      const { locale, caseSensitive, accentSensitive, numeric } = criterion.collation ?? {}
+      if (locale !== undefined) parts.push(`locale(${locale})`)
+      if (caseSensitive !== undefined) parts.push(caseSensitive ? "case" : "nocase")
+      if (accentSensitive !== undefined) parts.push(accentSensitive ? "accent" : "noaccent")
+      if (numeric !== undefined) parts.push(numeric ? "numeric" : "nonumeric")
+      return parts.join(":")
+    })
+    .join(",")
@@ -1,4 +1,7 @@
-import type { Client, ClientFieldId } from "./data"
+import { getClientField, type Client, type ClientFieldId } from "./data"
+import { getFieldComparator, type NullPlacement } from "./comparators"
+import type { CollationOptions } from "./collation"
+import { sortClientIndices } from "./compiled-sort"
 
 /**
  * @typedef {"asc" | "desc"} SortDirection
@@ -11,65 +14,139 @@ export type SortDirection = "asc" | "desc"
  * @property {string} id - A unique identifier for the sort criterion, used by dnd-kit.
  * @property {ClientFieldId} field - The ID of the client field to sort by.
  * @property {SortDirection} direction - The sorting direction (ascending or descending).
+ * @property {NullPlacement} [nulls] - Where empty values go. Falls back to the field type's default when omitted.
+ * @property {string[]} [rank] - Custom value order for "enum" fields. Falls back to the field's `options` order.
+ * @property {CollationOptions} [collation] - Collation settings for "string" fields. Falls back to `DEFAULT_COLLATION`.
  */
 export type SortCriterion = {
   id: string // Unique ID for dnd-kit to track draggable items
   field: ClientFieldId
   direction: SortDirection
+  nulls?: NullPlacement
+  rank?: string[]
+  collation?: CollationOptions
 }
 
 /**
- * Applies multiple sorting criteria to an array of clients.
- * Clients are sorted based on the order of criteria provided. If two clients are equal
- * according to one criterion, the next criterion is used.
+ * Resolves the value order used for an "enum" criterion: its custom `rank` if present,
+ * followed by any of the field's options the rank does not mention.
  *
- * @param {Client[]} clients - The array of client objects to be sorted.
- * @param {SortCriterion[]} criteria - An array of sorting criteria, ordered by priority.
- * @returns {Client[]} A new array of clients, sorted according to the provided criteria.
+ * @param {SortCriterion} criterion - The sort criterion.
+ * @returns {string[]} The full, ordered list of the field's values, or an empty array for non-enum fields.
  */
-export const applyMultiSort = (clients: Client[], criteria: SortCriterion[]): Client[] => {
-  // If no sorting criteria are provided, return a shallow copy of the original array
-  // to avoid direct mutation and ensure consistent behavior.
-  if (criteria.length === 0) {
-    return [...clients]
+export const resolveEnumRank = (criterion: SortCriterion): string[] => {
+  const field = getClientField(criterion.field)
+  if (!field || field.type !== "enum" || !field.options) return []
+  const rank = (criterion.rank ?? []).filter((value) => field.options!.includes(value))
+  return [...rank, ...field.options.filter((value) => !rank.includes(value))]
+}
+
+/**
+ * Creates a new sort criterion for a field with a unique ID.
+ *
+ * @param {ClientFieldId} field - The ID of the client field to sort by.
+ * @param {SortDirection} [direction="asc"] - The sorting direction.
+ * @returns {SortCriterion} The new criterion.
+ */
+export const createSortCriterion = (field: ClientFieldId, direction: SortDirection = "asc"): SortCriterion => ({
+  id: `sort-${Date.now()}-${field}`, // Unique ID for dnd-kit
+  field,
+  direction,
+})
+
+/**
+ * Computes the criteria resulting from clicking a column header.
+ *
+ * - A plain click makes the field the only criterion. If it already was the primary criterion, its direction is
+ *   toggled; otherwise it sorts ascending. Existing settings of the criterion (collation, rank, etc.) are kept.
+ * - A shift-click (`additive`) leaves the other criteria untouched: it appends the field ascending if absent,
+ *   switches it to descending if ascending, and removes it if descending.
+ *
+ * @param {SortCriterion[]} criteria - The current sort criteria.
+ * @param {ClientFieldId} field - The field whose header was clicked.
+ * @param {boolean} additive - Whether the click should add to the existing criteria (shift-click).
+ * @returns {SortCriterion[]} The new sort criteria.
+ */
+export const toggleHeaderSort = (
+  criteria: SortCriterion[],
+  field: ClientFieldId,
+  additive: boolean,
+): SortCriterion[] => {
+  const existing = criteria.find((c) => c.field === field)
+
+  if (additive) {
+    if (!existing) return [...criteria, createSortCriterion(field)]
+    if (existing.direction === "asc") {
+      return criteria.map((c) => (c === existing ? { ...c, direction: "desc" } : c))
+    }
+    return criteria.filter((c) => c !== existing)
   }
 
-  // Create a shallow copy of the clients array to avoid mutating the original array
-  return [...clients].sort((a, b) => {
-    // Iterate through each sorting criterion in the order of priority
-    for (const criterion of criteria) {
-      const { field, direction } = criterion
+  if (!existing) return [createSortCriterion(field)]
+  if (criteria[0] === existing) return [{ ...existing, direction: existing.direction === "asc" ? "desc" : "asc" }]
+  return [{ ...existing, direction: "asc" }]
+}
+
+/**
+ * Resolves where empty values are placed for a criterion: its own `nulls` setting if present,
+ * otherwise the default of the comparator registered for the field's type.
+ *
+ * @param {SortCriterion} criterion - The sort criterion.
+ * @returns {NullPlacement} The effective placement of empty values.
+ */
+export const resolveNullPlacement = (criterion: SortCriterion): NullPlacement => {
+  if (criterion.nulls) return criterion.nulls
+  const field = getClientField(criterion.field)
+  return field ? getFieldComparator(field.type).nulls : "last"
+}
 
-      let valA: any
-      let valB: any
+/**
+ * Builds a comparator that orders clients by multiple sorting criteria.
+ * If two clients are equal according to one criterion, the next criterion is used.
+ *
+ * Each criterion is dispatched through the comparator registered for its field's type
+ * (see `fieldComparators`). Empty values are placed first or last according to the criterion's
+ * `nulls` setting (or the comparator's default), independently of the sort direction.
+ * Criteria referring to unknown fields are ignored.
+ *
+ * This reads and compares the fields on every comparison. It is the reference for the compiled comparators
+ * used by `applyMultiSort`, which must order clients the same way.
+ *
+ * @param {SortCriterion[]} criteria - An array of sorting criteria, ordered by priority.
+ * @returns {((a: Client, b: Client) => number) | null} The comparator, or `null` if no criterion applies.
+ */
+export const createClientComparator = (criteria: SortCriterion[]): ((a: Client, b: Client) => number) | null => {
+  // Resolve each criterion's field definition and comparator once, rather than on every comparison.
+  const resolved = criteria.flatMap((criterion) => {
+    const field = getClientField(criterion.field)
+    if (!field) return []
+    return [
+      {
+        field,
+        options: { rank: criterion.rank, collation: criterion.collation },
+        direction: criterion.direction,
+        comparator: getFieldComparator(field.type),
+        emptyFirst: resolveNullPlacement(criterion) === "first",
+      },
+    ]
+  })
 
-      // Special handling for Date objects: convert to timestamp for reliable comparison.
-      // If a date field is null/undefined, treat it as 0 for consistent sorting (e.g., at the beginning).
-      if (field === "createdAt" || field === "updatedAt") {
-        valA = a[field] ? (a[field] as Date).getTime() : 0
-        valB = b[field] ? (b[field] as Date).getTime() : 0
-      } else {
-        // For other field types, directly use their values.
-        valA = a[field]
-        valB = b[field]
-      }
+  if (resolved.length === 0) return null
 
-      let comparison = 0
+  return (a, b) => {
+    // Iterate through each sorting criterion in the order of priority
+    for (const { field, options, direction, comparator, emptyFirst } of resolved) {
+      const valA = comparator.extract(a, field, options)
+      const valB = comparator.extract(b, field, options)
 
-      // Perform comparison based on the type of values.
-      // localeCompare for strings provides correct alphabetical sorting for various languages.
-      if (typeof valA === "string" && typeof valB === "string") {
-        comparison = valA.localeCompare(valB)
-      } else if (typeof valA === "number" && typeof valB === "number") {
-        // Direct subtraction for numbers.
-        comparison = valA - valB
-      } else {
-        // Fallback for other types or mixed types.
-        // This handles booleans, undefined, null, etc., by simple less than/greater than.
-        if (valA < valB) comparison = -1
-        else if (valA > valB) comparison = 1
+      // Empty values are placed first or last independently of the sort direction.
+      if (valA === null || valB === null) {
+        if (valA === valB) continue
+        return (valA === null) === emptyFirst ? -1 : 1
       }
 
+      const comparison = comparator.compare(valA, valB, options)
+
       // If a comparison yields a non-zero result, it means a difference was found.
       // Apply the direction (asc/desc) and return the result.
       if (comparison !== 0) {
@@ -78,5 +155,19 @@ export const applyMultiSort = (clients: Client[], criteria: SortCriterion[]): Cl
     }
     // If all criteria result in equality, maintain their relative order (return 0).
     return 0
-  })
+  }
+}
+
+/**
+ * Applies multiple sorting criteria to an array of clients.
+ * The criteria are compiled into a comparator over precomputed keys (see `compileSortCriteria`), which orders
+ * clients exactly like `createClientComparator` but much faster on large lists.
+ *
+ * @param {Client[]} clients - The array of client objects to be sorted.
+ * @param {SortCriterion[]} criteria - An array of sorting criteria, ordered by priority.
+ * @returns {Client[]} A new array of clients, sorted according to the provided criteria.
+ */
+export const applyMultiSort = (clients: Client[], criteria: SortCriterion[]): Client[] => {
+  // Without applicable criteria the indices stay in order, so this returns a shallow copy of the original array
+  return sortClientIndices(clients, criteria).map((index) => clients[index])
 }
@@ -0,0 +1,149 @@
+import { getClientField, type Client, type ClientFieldId } from "./data"
+import type { SortCriterion } from "./sort-utils"
+
+/**
+ * @typedef {Object} EncodedColumn
+ * The values of one field for every client, in a compact form that is cheap to send to a worker.
+ * Numeric columns use typed arrays, whose buffers are transferred rather than copied.
+ * - "string": the strings, `null` when the value is not a string.
+ * - "date" and "number": timestamps or numbers, `NaN` when empty or invalid.
+ * - "enum": the index of the value in the field's `options`, `-1` when it is not one of them.
+ * - "boolean": `1` or `0`, `-1` when the value is not a boolean.
+ */
+export type EncodedColumn =
+  | { type: "string"; values: (string | null)[] }
+  | { type: "date" | "number"; values: Float64Array }
+  | { type: "enum"; values: Int16Array }
+  | { type: "boolean"; values: Int8Array }
+
+/**
+ * @typedef {Object} ClientColumns
+ * A columnar snapshot of clients, holding only the fields that are sorted by.
+ * @property {number} count - The number of clients.
+ * @property {Partial<Record<ClientFieldId, EncodedColumn>>} fields - The encoded values, keyed by field.
+ */
+export type ClientColumns = {
+  count: number
+  fields: Partial<Record<ClientFieldId, EncodedColumn>>
+}
+
+/**
+ * @typedef {Object} SortWorkerRequest
+ * Message sent to the sort worker: sort the snapshot by the criteria.
+ * @property {"sort"} type - The message type.
+ * @property {number} jobId - Identifies the job in the worker's responses.
+ * @property {ClientColumns} columns - The clients to sort.
+ * @property {SortCriterion[]} criteria - The sort criteria.
+ */
+export type SortWorkerRequest = {
+  type: "sort"
+  jobId: number
+  columns: ClientColumns
+  criteria: SortCriterion[]
+}
+
+/**
+ * @typedef {Object} SortWorkerResponse
+ * Message sent back by the sort worker for a job.
+ * - "progress": an estimate of how far the sort is, from 0 to 100.
+ * - "result": the sorted order, as indices into the snapshot.
+ * - "error": the sort failed.
+ */
+export type SortWorkerResponse =
+  | { type: "progress"; jobId: number; progress: number }
+  | { type: "result"; jobId: number; order: Uint32Array }
+  | { type: "error"; jobId: number; message: string }
+
+/**
+ * Encodes the fields used by the sort criteria into a columnar snapshot.
+ *
+ * @param {Client[]} clients - The clients to encode.
+ * @param {SortCriterion[]} criteria - The sort criteria, which determine the fields to include.
+ * @returns {{ columns: ClientColumns, transfer: Transferable[] }} The snapshot, and the buffers to transfer with it.
+ */
+export const encodeClientColumns = (
+  clients: Client[],
+  criteria: SortCriterion[],
+): { columns: ClientColumns; transfer: Transferable[] } => {
+  const fields: ClientColumns["fields"] = {}
+  const transfer: Transferable[] = []
+
+  for (const { field: id } of criteria) {
+    const field = getClientField(id)
+    if (!field || fields[id]) continue
+    const values = clients.map((client) => client[field.id] as unknown)
+
+    switch (field.type) {
+      case "string":
+        fields[id] = { type: "string", values: values.map((value) => (typeof value === "string" ? value : null)) }
+        break
+      case "date": {
+        const column = Float64Array.from(values, (value) =>
+          value instanceof Date ? value.getTime() : typeof value === "string" ? Date.parse(value) : NaN,
+        )
+        fields[id] = { type: "date", values: column }
+        transfer.push(column.buffer)
+        break
+      }
+      case "number": {
+        const column = Float64Array.from(values, (value) => (typeof value === "number" ? value : NaN))
+        fields[id] = { type: "number", values: column }
+        transfer.push(column.buffer)
+        break
+      }
+      case "enum": {
+        const column = Int16Array.from(values, (value) =>
+          typeof value === "string" ? (field.options?.indexOf(value) ?? -1) : -1,
+        )
+        fields[id] = { type: "enum", values: column }
+        transfer.push(column.buffer)
+        break
+      }
+      case "boolean": {
+        const column = Int8Array.from(values, (value) => (typeof value === "boolean" ? Number(value) : -1))
+        fields[id] = { type: "boolean", values: column }
+        transfer.push(column.buffer)
+        break
+      }
+    }
+  }
+
+  return { columns: { count: clients.length, fields }, transfer }
+}
+
+/**
+ * Rebuilds client records from a columnar snapshot, so they can be sorted with `applyMultiSort`.
+ * Each record only holds the encoded fields, plus its index in the snapshot as its `id`. Empty values are left
+ * out, which the comparators treat the same as the original empty values.
+ *
+ * @param {ClientColumns} columns - The snapshot to decode.
+ * @returns {Client[]} The partial client records, in snapshot order.
+ */
+export const decodeClientColumns = (columns: ClientColumns): Client[] => {
+  const rows: Record<string, unknown>[] = Array.from({ length: columns.count }, (_, index) => ({ id: String(index) }))
+
+  for (const [id, column] of Object.entries(columns.fields) as [ClientFieldId, EncodedColumn][]) {
+    const options = getClientField(id)?.options
+    rows.forEach((row, index) => {
+      switch (column.type) {
+        case "string":
+          if (column.values[index] !== null) row[id] = column.values[index]
+          break
+        case "date":
+          if (!Number.isNaN(column.values[index])) row[id] = new Date(column.values[index])
+          break
+        case "number":
+          if (!Number.isNaN(column.values[index])) row[id] = column.values[index]
+          break
+        case "enum":
+          if (column.values[index] !== -1) row[id] = options?.[column.values[index]]
+          break
+        case "boolean":
+          if (column.values[index] !== -1) row[id] = column.values[index] === 1
+          break
+      }
+    })
+  }
+
+  return rows as unknown as Client[]
+}
@@ -0,0 +1,38 @@
+import { compileSortCriteria } from "./compiled-sort"
+import { decodeClientColumns, type SortWorkerRequest, type SortWorkerResponse } from "./sort-worker-protocol"
+
+// How many comparisons run between two progress reports
+const PROGRESS_INTERVAL = 50_000
+
+const respond = (response: SortWorkerResponse, transfer: Transferable[] = []) => postMessage(response, { transfer })
+
+/**
+ * Sorts a columnar snapshot of clients off the main thread and replies with the sorted order.
+ * Progress is estimated from the number of comparisons made so far, relative to the n·log₂(n) a sort
+ * typically needs. Jobs are not interrupted here: the page terminates the worker to cancel a running job.
+ */
+addEventListener("message", (event: MessageEvent<SortWorkerRequest>) => {
+  const { jobId, columns, criteria } = event.data
+  try {
+    const rows = decodeClientColumns(columns)
+    const order = Array.from({ length: rows.length }, (_, index) => index)
+    const compare = compileSortCriteria(rows, criteria)
+
+    if (compare) {
+      const expected = Math.max(1, rows.length * Math.log2(Math.max(2, rows.length)))
+      let comparisons = 0
+      order.sort((a, b) => {
+        if (++comparisons % PROGRESS_INTERVAL === 0) {
+          // Capped below 100, since the estimate may fall short
+          respond({ type: "progress", jobId, progress: Math.min(95, (comparisons / expected) * 100) })
+        }
+        return compare(a, b)
+      })
+    }
+
+    const result = Uint32Array.from(order)
+    respond({ type: "result", jobId, order: result }, [result.buffer])
+  } catch (error) {
+    respond({ type: "error", jobId, message: error instanceof Error ? error.message : String(error) })
+  }
+})
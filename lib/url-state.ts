@@ -0,0 +1,130 @@
+import { getClientField } from "./data"
+import type { SortCriterion } from "./sort-utils"
+import { parseSortString, serializeSortString } from "./sort-string"
+import { EMPTY_FILTERS, type FilterCondition, type FilterState } from "./filter-utils"
+import { DEFAULT_VIEW_STATE } from "./views"
+
+/**
+ * @typedef {Object} UrlState
+ * The part of the dashboard state that is shareable through the URL query string.
+ * @property {string | null} viewId - The active saved view, if any (`view`).
+ * @property {SortCriterion[]} sortCriteria - The sort criteria (`sort`).
+ * @property {FilterState} filters - The filter groups (`filters`).
+ * @property {string} query - The quick search text (`q`).
+ * @property {number} pageSize - The number of clients per page (`pageSize`).
+ * @property {number} page - The current page of the table, starting at 1 (`page`).
+ */
+export type UrlState = {
+  viewId: string | null
+  sortCriteria: SortCriterion[]
+  filters: FilterState
+  query: string
+  pageSize: number
+  page: number
+}
+
+// Query string parameter names
+const PARAMS = {
+  view: "view",
+  sort: "sort",
+  filters: "filters",
+  query: "q",
+  pageSize: "pageSize",
+  page: "page",
+} as const
+
+/**
+ * Parses a filter state serialized as JSON, as in the `filters` parameter of the URL.
+ * Groups and conditions without an ID of their own, or repeating one, are given one from their position, since
+ * the filter panel tells them apart by ID.
+ *
+ * @param {string} value - The JSON text.
+ * @returns {FilterState | null} The filter state, or `null` when it is malformed.
+ */
+export const parseFilters = (value: string): FilterState | null => {
+  const isCombinator = (combinator: unknown) => combinator === "and" || combinator === "or"
+  // Each condition must name a known field and carry text values only; unknown operators simply match nothing
+  const isCondition = (condition: FilterCondition) =>
+    getClientField(condition?.field) !== undefined &&
+    typeof condition.operator === "string" &&
+    typeof condition.value === "string" &&
+    (condition.valueTo === undefined || typeof condition.valueTo === "string") &&
+    (condition.values === undefined ||
+      (Array.isArray(condition.values) && condition.values.every((value) => typeof value === "string")))
+  try {
+    const parsed: FilterState = JSON.parse(value)
+    if (
+      isCombinator(parsed?.combinator) &&
+      Array.isArray(parsed.groups) &&
+      parsed.groups.every(
+        (group) =>
+          isCombinator(group?.combinator) && Array.isArray(group.conditions) && group.conditions.every(isCondition),
+      )
+    ) {
+      const usedIds = new Set<unknown>()
+      const ensureId = <T extends { id: string }>(item: T, fallback: string): T => {
+        const id = typeof item.id === "string" && item.id !== "" && !usedIds.has(item.id) ? item.id : fallback
+        usedIds.add(id)
+        return { ...item, id }
+      }
+      return {
+        ...parsed,
+        groups: parsed.groups.map((group, groupIndex) => ({
+          ...ensureId(group, `group-url-${groupIndex + 1}`),
+          conditions: group.conditions.map((condition, index) =>
+            ensureId(condition, `filter-url-${groupIndex + 1}-${index + 1}`),
+          ),
+        })),
+      }
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null
+}
+
+/**
+ * Reads the dashboard state from URL query parameters.
+ * When any of the recognized parameters is present the URL is considered authoritative, and the missing
+ * ones take their default values; otherwise `null` is returned so that persisted state can be used instead.
+ *
+ * @param {Pick<URLSearchParams, "get">} params - The URL query parameters.
+ * @returns {UrlState | null} The state described by the URL, or `null` if the URL carries no state.
+ */
+export const parseUrlState = (params: Pick<URLSearchParams, "get">): UrlState | null => {
+  if (!Object.values(PARAMS).some((name) => params.get(name) !== null)) {
+    return null
+  }
+
+  const sort = params.get(PARAMS.sort)
+  const filters = params.get(PARAMS.filters)
+  const pageSize = Number(params.get(PARAMS.pageSize))
+  const page = Number(params.get(PARAMS.page))
+
+  return {
+    viewId: params.get(PARAMS.view),
+    sortCriteria: sort ? parseSortString(sort).criteria : [],
+    filters: (filters && parseFilters(filters)) || EMPTY_FILTERS,
+    query: params.get(PARAMS.query) ?? "",
+    pageSize: Number.isInteger(pageSize) && pageSize > 0 ? pageSize : DEFAULT_VIEW_STATE.pageSize,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+/**
+ * Writes the dashboard state into URL query parameters. Parameters holding their default value are left out
+ * to keep links short.
+ *
+ * @param {UrlState} state - The state to serialize.
+ * @returns {URLSearchParams} The query parameters.
+ */
+export const buildUrlSearchParams = (state: UrlState): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (state.viewId) params.set(PARAMS.view, state.viewId)
+  if (state.sortCriteria.length > 0) params.set(PARAMS.sort, serializeSortString(state.sortCriteria))
+  if (state.filters.groups.length > 0) params.set(PARAMS.filters, JSON.stringify(state.filters))
+  if (state.query) params.set(PARAMS.query, state.query)
+  if (state.pageSize !== DEFAULT_VIEW_STATE.pageSize) params.set(PARAMS.pageSize, String(state.pageSize))
+  if (state.page > 1) params.set(PARAMS.page, String(state.page))
+  return params
+}
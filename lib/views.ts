@@ -0,0 +1,159 @@
+import type { ClientFieldId } from "./data"
+import type { SortCriterion } from "./sort-utils"
+import { serializeSortString } from "./sort-string"
+import { EMPTY_FILTERS, type FilterState } from "./filter-utils"
+import { DEFAULT_COLUMN_ORDER, type ColumnWidths } from "./columns"
+
+/**
+ * @typedef {Object} ViewState
+ * Everything a saved view remembers about how the client table is displayed.
+ * @property {SortCriterion[]} sortCriteria - The sort criteria, ordered by priority.
+ * @property {FilterState} filters - The filter groups and conditions.
+ * @property {ClientFieldId[]} hiddenColumns - The columns hidden from the table.
+ * @property {ClientFieldId[]} columnOrder - The order of the table's columns.
+ * @property {ColumnWidths} columnWidths - The column widths set by resizing.
+ * @property {ClientFieldId[]} pinnedColumns - The columns pinned to the left.
+ * @property {number} pageSize - The number of clients per page.
+ */
+export type ViewState = {
+  sortCriteria: SortCriterion[]
+  filters: FilterState
+  hiddenColumns: ClientFieldId[]
+  columnOrder: ClientFieldId[]
+  columnWidths: ColumnWidths
+  pinnedColumns: ClientFieldId[]
+  pageSize: number
+}
+
+/**
+ * @typedef {Object} SavedView
+ * @property {string} id - A unique identifier for the view.
+ * @property {string} name - The name shown in the view switcher.
+ * @property {ViewState} state - The captured table state.
+ */
+export type SavedView = {
+  id: string
+  name: string
+  state: ViewState
+}
+
+/**
+ * @typedef {Object} ViewsStore
+ * The persisted collection of saved views.
+ * @property {SavedView[]} views - The saved views, in creation order.
+ * @property {string | null} defaultViewId - The view applied when the dashboard loads, if any.
+ * @property {string | null} activeViewId - The view currently selected in the switcher, if any.
+ */
+export type ViewsStore = {
+  views: SavedView[]
+  defaultViewId: string | null
+  activeViewId: string | null
+}
+
+/**
+ * The table state used when no view is applied.
+ */
+export const DEFAULT_VIEW_STATE: ViewState = {
+  sortCriteria: [],
+  filters: EMPTY_FILTERS,
+  hiddenColumns: [],
+  columnOrder: DEFAULT_COLUMN_ORDER,
+  columnWidths: {},
+  pinnedColumns: [],
+  pageSize: 25,
+}
+
+/**
+ * A store without any saved views.
+ */
+export const EMPTY_VIEWS_STORE: ViewsStore = { views: [], defaultViewId: null, activeViewId: null }
+
+/**
+ * Tells whether two view states are identical, e.g. to detect unsaved changes to the active view.
+ * Sort criteria are compared by their settings, written as a sort string: their IDs, regenerated when the
+ * criteria are read back from the URL, and the order of their properties do not matter.
+ *
+ * @param {ViewState} a - The first state.
+ * @param {ViewState} b - The second state.
+ * @returns {boolean} `true` if both states capture the same settings.
+ */
+export const isSameViewState = (a: ViewState, b: ViewState): boolean => {
+  const { sortCriteria: aCriteria, ...aRest } = a
+  const { sortCriteria: bCriteria, ...bRest } = b
+  return (
+    serializeSortString(aCriteria) === serializeSortString(bCriteria) && JSON.stringify(aRest) === JSON.stringify(bRest)
+  )
+}
+
+/**
+ * Saves the given state as a new view and makes it the active one.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string} name - The name of the new view.
+ * @param {ViewState} state - The state to capture.
+ * @returns {ViewsStore} The updated store.
+ */
+export const createView = (store: ViewsStore, name: string, state: ViewState): ViewsStore => {
+  const view: SavedView = { id: `view-${Date.now()}`, name: name.trim(), state }
+  return { ...store, views: [...store.views, view], activeViewId: view.id }
+}
+
+/**
+ * Replaces the captured state of an existing view.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string} id - The ID of the view to update.
+ * @param {ViewState} state - The new state.
+ * @returns {ViewsStore} The updated store.
+ */
+export const updateView = (store: ViewsStore, id: string, state: ViewState): ViewsStore => ({
+  ...store,
+  views: store.views.map((view) => (view.id === id ? { ...view, state } : view)),
+})
+
+/**
+ * Renames an existing view.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string} id - The ID of the view to rename.
+ * @param {string} name - The new name.
+ * @returns {ViewsStore} The updated store.
+ */
+export const renameView = (store: ViewsStore, id: string, name: string): ViewsStore => ({
+  ...store,
+  views: store.views.map((view) => (view.id === id ? { ...view, name: name.trim() } : view)),
+})
+
+/**
+ * Copies a view under a new name ("<name> (copy)") and makes the copy the active view.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string} id - The ID of the view to duplicate.
+ * @returns {ViewsStore} The updated store, unchanged if the view does not exist.
+ */
+export const duplicateView = (store: ViewsStore, id: string): ViewsStore => {
+  const view = store.views.find((v) => v.id === id)
+  return view ? createView(store, `${view.name} (copy)`, view.state) : store
+}
+
+/**
+ * Deletes a view. Clears the default and active view references if they pointed at it.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string} id - The ID of the view to delete.
+ * @returns {ViewsStore} The updated store.
+ */
+export const deleteView = (store: ViewsStore, id: string): ViewsStore => ({
+  views: store.views.filter((view) => view.id !== id),
+  defaultViewId: store.defaultViewId === id ? null : store.defaultViewId,
+  activeViewId: store.activeViewId === id ? null : store.activeViewId,
+})
+
+/**
+ * Sets (or clears, with `null`) the view applied when the dashboard loads.
+ *
+ * @param {ViewsStore} store - The current store.
+ * @param {string | null} id - The ID of the new default view.
+ * @returns {ViewsStore} The updated store.
+ */
+export const setDefaultView = (store: ViewsStore, id: string | null): ViewsStore => ({ ...store, defaultViewId: id })